@@ -2,11 +2,14 @@ import { describe, test, expect, beforeAll, afterAll } from "bun:test";
 import type { OpencodeClient } from "@opencode-ai/sdk";
 import type postgres from "postgres";
 
+import { loadConfig } from "../../config";
+import { createPostgresStorage } from "../../storage/postgres";
 import {
   startTestStack,
   stopTestStack,
   createTestClient,
   createTestDatabase,
+  TEST_DATABASE_URL,
 } from "./setup";
 
 let client: OpencodeClient | null = null;
@@ -396,6 +399,92 @@ describe("Database Plugin - File Operations", () => {
   }, 90000);
 });
 
+describe("Database Plugin - Session Trees", () => {
+  test("roots subagent sessions and rolls them up, whatever order they arrive in", async () => {
+    loadConfig({ ...process.env, OPENCODE_DATABASE_URL: TEST_DATABASE_URL });
+    const storage = createPostgresStorage();
+    const prefix = `tree-${Date.now()}`;
+    const id = (name: string) => `${prefix}-${name}`;
+    const session = (name: string, parent: string | null) =>
+      storage.upsertSession({
+        id: id(name),
+        title: name,
+        parentId: parent ? id(parent) : null,
+        projectId: null,
+        directory: null,
+      });
+    const roots = async () =>
+      Object.fromEntries(
+        (
+          await sql!`
+            SELECT id, root_session_id FROM sessions WHERE id LIKE ${`${prefix}-%`}
+          `
+        ).map((row) => [row.id, row.root_session_id]),
+      );
+    const rollup = async (root: string) => {
+      const [row] = await sql!`
+        SELECT sessions, max_depth, tool_calls, errors
+        FROM session_tree_rollup_view
+        WHERE root_session_id = ${id(root)}
+      `;
+      return { ...row };
+    };
+
+    try {
+      // The grandchild and child are written before the session that spawned them.
+      await session("grandchild", "child");
+      await session("child", "root");
+      await session("root", null);
+      await storage.recordToolExecution({
+        correlationId: id("call"),
+        sessionId: id("grandchild"),
+        toolName: "bash",
+        args: {},
+        result: {},
+        completedAt: new Date(),
+      });
+      await storage.recordSessionError({
+        sessionId: id("child"),
+        errorType: "APIError",
+        errorMessage: null,
+        errorData: null,
+      });
+
+      expect(await roots()).toEqual({
+        [id("root")]: id("root"),
+        [id("child")]: id("root"),
+        [id("grandchild")]: id("root"),
+      });
+      expect(await rollup("root")).toEqual({
+        sessions: "3",
+        max_depth: 2,
+        tool_calls: "1",
+        errors: "1",
+      });
+
+      // A root moved under another session takes its subtree along.
+      await session("top", null);
+      await session("root", "top");
+
+      expect(await roots()).toEqual({
+        [id("top")]: id("top"),
+        [id("root")]: id("top"),
+        [id("child")]: id("top"),
+        [id("grandchild")]: id("top"),
+      });
+      expect(await rollup("top")).toEqual({
+        sessions: "4",
+        max_depth: 3,
+        tool_calls: "1",
+        errors: "1",
+      });
+    } finally {
+      await sql!`DELETE FROM sessions WHERE id LIKE ${`${prefix}-%`}`;
+      await storage.close();
+    }
+  });
+});
+
 describe("Database Plugin - Database Schema", () => {
   test("sessions table exists with correct columns", async () => {
     const columns = await sql!`
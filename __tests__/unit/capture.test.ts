@@ -0,0 +1,166 @@
+import { describe, test, expect, afterEach, afterAll } from "bun:test";
+import { createHash } from "node:crypto";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadConfig, type DatabasePluginConfigFile } from "../../config";
+import {
+  isCaptured,
+  isSessionCaptured,
+  limitPayload,
+  matchesGlob,
+} from "../../capture";
+
+const dir = mkdtempSync(join(tmpdir(), "opencode-db-capture-"));
+
+function withPolicy(capture: DatabasePluginConfigFile["capture"]): void {
+  const file = join(dir, "config.json");
+  writeFileSync(file, JSON.stringify({ capture }));
+  loadConfig({ ...process.env, OPENCODE_DB_CONFIG: file });
+}
+
+afterEach(() => {
+  loadConfig();
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("matchesGlob", () => {
+  test("matches names and paths", () => {
+    expect(matchesGlob("mcp_*", "mcp_github")).toBe(true);
+    expect(matchesGlob("mcp_*", "bash")).toBe(false);
+    expect(matchesGlob("/work/clients/**", "/work/clients/acme/api")).toBe(true);
+    expect(matchesGlob("/work/clients/**", "/work/oss/plugin")).toBe(false);
+  });
+});
+
+describe("isCaptured", () => {
+  test("captures everything by default", () => {
+    loadConfig();
+    expect(
+      isCaptured({ tool: "bash", partType: "tool", role: "user" })
+    ).toBe(true);
+  });
+
+  test("excludes matching tools and part types", () => {
+    withPolicy({
+      tools: { exclude: ["read", "mcp_*"] },
+      partTypes: { exclude: ["reasoning"] },
+    });
+
+    expect(isCaptured({ tool: "read" })).toBe(false);
+    expect(isCaptured({ tool: "mcp_slack" })).toBe(false);
+    expect(isCaptured({ tool: "bash" })).toBe(true);
+    expect(isCaptured({ partType: "reasoning" })).toBe(false);
+    expect(isCaptured({ partType: "text" })).toBe(true);
+  });
+
+  test("limits capture to included values, with exclusions winning", () => {
+    withPolicy({
+      roles: { include: ["assistant"] },
+      tools: { include: ["mcp_*"], exclude: ["mcp_slack"] },
+    });
+
+    expect(isCaptured({ role: "assistant" })).toBe(true);
+    expect(isCaptured({ role: "user" })).toBe(false);
+    expect(isCaptured({ tool: "mcp_github" })).toBe(true);
+    expect(isCaptured({ tool: "mcp_slack" })).toBe(false);
+    expect(isCaptured({ tool: "bash" })).toBe(false);
+  });
+
+  test("ignores dimensions that are unknown", () => {
+    withPolicy({ roles: { include: ["assistant"] } });
+    expect(isCaptured({ tool: "bash", role: null })).toBe(true);
+  });
+});
+
+describe("isSessionCaptured", () => {
+  test("applies directory and project ID filters", () => {
+    withPolicy({
+      directories: { include: ["/work/**"], exclude: ["/work/clients/**"] },
+      projects: { include: ["oss-*"] },
+    });
+
+    expect(isSessionCaptured({ directory: "/work/oss", projectId: "oss-plugin" })).toBe(true);
+    expect(isSessionCaptured({ directory: "/work/oss", projectId: "acme" })).toBe(false);
+    expect(
+      isSessionCaptured({ directory: "/work/clients/acme", projectId: "oss-plugin" })
+    ).toBe(false);
+    expect(isSessionCaptured({ directory: "/home/me", projectId: "oss-plugin" })).toBe(false);
+  });
+
+  test("honours an opt-out marker anywhere up to the repository root", () => {
+    loadConfig();
+    const repo = join(dir, "client-repo");
+    mkdirSync(join(repo, ".git"), { recursive: true });
+    mkdirSync(join(repo, ".opencode"), { recursive: true });
+    mkdirSync(join(repo, "packages", "api"), { recursive: true });
+    writeFileSync(join(repo, ".opencode", "no-db-log"), "");
+
+    expect(isSessionCaptured({ directory: repo })).toBe(false);
+    expect(isSessionCaptured({ directory: join(repo, "packages", "api") })).toBe(false);
+  });
+
+  test("does not look past the repository root for a marker", () => {
+    loadConfig();
+    mkdirSync(join(dir, ".opencode"), { recursive: true });
+    writeFileSync(join(dir, ".opencode", "no-db-log"), "");
+    const repo = join(dir, "nested", "repo");
+    mkdirSync(join(repo, ".git"), { recursive: true });
+
+    expect(isSessionCaptured({ directory: repo })).toBe(true);
+    expect(isSessionCaptured({ directory: join(dir, "nested") })).toBe(false);
+  });
+});
+
+describe("limitPayload", () => {
+  test("passes payloads within the limit through unchanged", () => {
+    withPolicy({ maxPayloadBytes: 16 });
+    const args = { command: "ls" };
+
+    expect(limitPayload("short")).toBe("short");
+    expect(limitPayload(args)).toBe(args);
+    expect(limitPayload(null)).toBeNull();
+  });
+
+  test("truncates oversized strings with a size marker", () => {
+    withPolicy({ maxPayloadBytes: 10 });
+    expect(limitPayload("x".repeat(100))).toBe(
+      `${"x".repeat(10)}\n[truncated: 100 bytes]`
+    );
+  });
+
+  test("does not split multi-byte characters", () => {
+    withPolicy({ maxPayloadBytes: 5 });
+    expect(limitPayload("ééééé")).toBe("éé\n[truncated: 10 bytes]");
+  });
+
+  test("replaces oversized objects with a marker", () => {
+    withPolicy({ maxPayloadBytes: 10 });
+    const payload = { output: "y".repeat(40) };
+    const json = JSON.stringify(payload);
+
+    expect(limitPayload(payload)).toEqual({
+      truncated: true,
+      preview: json.slice(0, 10),
+      originalBytes: json.length,
+    });
+  });
+
+  test("hashes oversized payloads when configured to", () => {
+    withPolicy({ maxPayloadBytes: 10, oversized: "hash" });
+    const text = "z".repeat(50);
+    const sha256 = createHash("sha256").update(text).digest("hex");
+
+    expect(limitPayload(text)).toBe(`[omitted: sha256 ${sha256}, 50 bytes]`);
+    expect(limitPayload({ text })).toMatchObject({ originalBytes: 61 });
+  });
+
+  test("does not limit payloads when the limit is 0", () => {
+    withPolicy({ maxPayloadBytes: 0 });
+    const text = "x".repeat(5000);
+    expect(limitPayload(text)).toBe(text);
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  ConfigError,
+  DEFAULT_CONFIG,
+  describeConfig,
+  resolveConfig,
+} from "../../config";
+
+const configDir = mkdtempSync(join(tmpdir(), "opencode-db-config-"));
+const missingFile = join(configDir, "missing.json");
+
+afterAll(() => {
+  rmSync(configDir, { recursive: true, force: true });
+});
+
+function writeConfigFile(name: string, content: unknown): string {
+  const path = join(configDir, name);
+  writeFileSync(
+    path,
+    typeof content === "string" ? content : JSON.stringify(content)
+  );
+  return path;
+}
+
+describe("resolveConfig", () => {
+  test("returns the defaults when nothing is set", () => {
+    const { config, sources } = resolveConfig({
+      OPENCODE_DB_CONFIG: missingFile,
+    });
+
+    expect(config).toEqual(DEFAULT_CONFIG);
+    expect(sources).toEqual(["defaults"]);
+  });
+
+  test("layers config file and env in that order", () => {
+    const file = writeConfigFile("layers.json", {
+      queryTimeoutMs: 5000,
+      pool: { max: 5, idleTimeoutSeconds: 60 },
+      batch: { windowMs: 100 },
+    });
+
+    const { config, sources } = resolveConfig({
+      OPENCODE_DB_CONFIG: file,
+      OPENCODE_DB_POOL_MAX: "8",
+      OPENCODE_DB_BATCH_WINDOW_MS: "25",
+    });
+
+    expect(config.queryTimeoutMs).toBe(5000);
+    expect(config.pool).toEqual({
+      ...DEFAULT_CONFIG.pool,
+      max: 8,
+      idleTimeoutSeconds: 60,
+    });
+    expect(config.batch.windowMs).toBe(25);
+    expect(sources).toEqual(["defaults", file, "env"]);
+  });
+
+  test("parses typed environment variables", () => {
+    const { config } = resolveConfig({
+      OPENCODE_DB_CONFIG: missingFile,
+      OPENCODE_DATABASE_URL: "sqlite::memory:",
+      OPENCODE_DB_AUTO_MIGRATE: "false",
+      OPENCODE_DB_POOL_MAX: "4",
+      OPENCODE_DB_CAPTURE_TOOL_OUTPUTS: "0",
+    });
+
+    expect(config.databaseUrl).toBe("sqlite::memory:");
+    expect(config.autoMigrate).toBe(false);
+    expect(config.pool.max).toBe(4);
+    expect(config.capture.toolOutputs).toBe(false);
+  });
+
+  test("does not mutate the defaults", () => {
+    const file = writeConfigFile("pool.json", { pool: { max: 2 } });
+    resolveConfig({ OPENCODE_DB_CONFIG: file });
+    expect(DEFAULT_CONFIG.pool.max).toBe(30);
+  });
+
+  test("reports every invalid value at once", () => {
+    const file = writeConfigFile("invalid.json", {
+      pool: { maxx: 3, max: 0 },
+      capture: { toolArgs: "no" },
+    });
+
+    let error: unknown;
+    try {
+      resolveConfig({
+        OPENCODE_DB_CONFIG: file,
+        OPENCODE_DB_QUERY_TIMEOUT: "10s",
+      });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ConfigError);
+    expect((error as ConfigError).issues).toEqual([
+      `${file}: unknown option "pool.maxx"`,
+      `${file}: "pool.max" must be an integer >= 1`,
+      `${file}: "capture.toolArgs" must be a boolean`,
+      "env: OPENCODE_DB_QUERY_TIMEOUT must be a non-negative integer",
+    ]);
+  });
+
+  test("rejects redaction patterns that are not valid regexes", () => {
+    const file = writeConfigFile("patterns.json", {
+      redaction: { patterns: ["token_[a-z]+", "(unclosed"] },
+    });
+
+    expect(() => resolveConfig({ OPENCODE_DB_CONFIG: file })).toThrow('"redaction.patterns" has invalid patterns: (unclosed');
+  });
+
+  test("accepts capture filters and checks the oversized mode", () => {
+    const filters = writeConfigFile("filters.json", {
+      capture: { tools: { exclude: ["read"] } },
+    });
+    const { config } = resolveConfig({
+      OPENCODE_DB_CONFIG: filters,
+      OPENCODE_DB_OVERSIZED_PAYLOADS: "hash",
+    });
+    expect(config.capture.tools).toEqual({ include: [], exclude: ["read"] });
+    expect(config.capture.oversized).toBe("hash");
+
+    const invalid = writeConfigFile("invalid-filters.json", {
+      capture: { oversized: "drop", tools: { exclude: "read" } },
+    });
+    expect(() => resolveConfig({ OPENCODE_DB_CONFIG: invalid })).toThrow(
+      `${invalid}: "capture.oversized" must be one of truncate, hash; ${invalid}: "capture.tools.exclude" must be a list of strings`
+    );
+  });
+
+  test("reads encryption keys from the environment and checks them", () => {
+    const key = Buffer.alloc(32, 7).toString("base64");
+    const { config } = resolveConfig({
+      OPENCODE_DB_CONFIG: missingFile,
+      OPENCODE_DB_ENCRYPTION: "true",
+      OPENCODE_DB_ENCRYPTION_KEY_ID: "2025",
+      OPENCODE_DB_ENCRYPTION_KEYS: `2024:${key}, 2025:${key}`,
+    });
+    expect(config.encryption.keys).toEqual([`2024:${key}`, `2025:${key}`]);
+
+    const unknownKey = writeConfigFile("unknown-key.json", {
+      encryption: { enabled: true, keyId: "2026", keys: [`2025:${key}`] },
+    });
+    expect(() => resolveConfig({ OPENCODE_DB_CONFIG: unknownKey })).toThrow(
+      '"encryption.keys" has no key with ID "2026" to encrypt with'
+    );
+    const shortKey = writeConfigFile("short-key.json", {
+      encryption: { keys: ["2025:c2hvcnQ="] },
+    });
+    expect(() => resolveConfig({ OPENCODE_DB_CONFIG: shortKey })).toThrow('"encryption.keys" entries must be <key ID>:<base64 32-byte key>');
+  });
+
+  test("rejects a config file that is not valid JSON", () => {
+    const file = writeConfigFile("broken.json", "{ pool: ");
+
+    expect(() => resolveConfig({ OPENCODE_DB_CONFIG: file })).toThrow(
+      ConfigError
+    );
+  });
+});
+
+describe("describeConfig", () => {
+  test("masks the database password", () => {
+    const described = describeConfig({
+      ...DEFAULT_CONFIG,
+      databaseUrl: "postgres://user:secret@db:5432/opencode",
+    });
+
+    expect(described.databaseUrl).toBe("postgres://user:***@db:5432/opencode");
+    expect(described.databaseUrl).not.toContain("secret");
+  });
+
+  test("leaves URLs without a password alone", () => {
+    const described = describeConfig({
+      ...DEFAULT_CONFIG,
+      databaseUrl: "sqlite:///var/lib/opencode.db",
+    });
+
+    expect(described.databaseUrl).toBe("sqlite:///var/lib/opencode.db");
+  });
+
+  test("masks encryption keys but keeps their IDs", () => {
+    const key = Buffer.alloc(32, 7).toString("base64");
+    const described = describeConfig({
+      ...DEFAULT_CONFIG,
+      encryption: { ...DEFAULT_CONFIG.encryption, keys: [`2025:${key}`] },
+    });
+
+    expect(described.encryption.keys).toEqual(["2025:***"]);
+  });
+});
@@ -0,0 +1,403 @@
+import { describe, test, expect, afterAll, mock } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  bufferWrite,
+  drainWrites,
+  enqueueWrite,
+  flushBufferedWrites,
+  getWriteQueueStats,
+  setSpoolEnabled,
+  sql,
+} from "../../db";
+import { getQuarantineStats, readQuarantine } from "../../quarantine";
+import { loadConfig } from "../../config";
+import { appendToSpool, getSpoolStats, replaySpool } from "../../spool";
+import { createPostgresStorage } from "../../storage/postgres";
+
+const quarantineDir = mkdtempSync(join(tmpdir(), "opencode-db-quarantine-"));
+const quarantinePath = join(quarantineDir, "quarantine.jsonl");
+const spoolPath = join(quarantineDir, "spool.jsonl");
+process.env.OPENCODE_DB_QUARANTINE_PATH = quarantinePath;
+process.env.OPENCODE_DB_SPOOL_PATH = spoolPath;
+process.env.OPENCODE_DB_BACKOFF_BASE_MS = "1";
+loadConfig();
+
+afterAll(() => {
+  rmSync(quarantineDir, { recursive: true, force: true });
+});
+
+// A client whose connections only record the queries sent on them.
+const sent: string[] = [];
+let rejectQuery: { query: string; error: Error } | undefined;
+mock.module("postgres", () => ({
+  default: () => ({
+    reserve: async () =>
+      Object.assign(
+        async (strings: TemplateStringsArray) => {
+          const query = strings.join("?").trim();
+          sent.push(query);
+          if (query === rejectQuery?.query) {
+            throw rejectQuery.error;
+          }
+          return [];
+        },
+        { release: () => sent.push("release") },
+      ),
+  }),
+}));
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+describe("Write Queue", () => {
+  test("runs writes for the same session in enqueue order", async () => {
+    const order: string[] = [];
+    const slow = deferred();
+    const done = deferred();
+
+    enqueueWrite("sess-order", async () => {
+      await slow.promise;
+      order.push("first");
+    });
+    enqueueWrite("sess-order", async () => {
+      order.push("second");
+      done.resolve();
+    });
+
+    await Bun.sleep(10);
+    expect(order).toEqual([]);
+
+    slow.resolve();
+    await done.promise;
+    expect(order).toEqual(["first", "second"]);
+  });
+
+  test("runs different sessions concurrently", async () => {
+    const blocked = deferred();
+    const other = deferred();
+
+    enqueueWrite("sess-blocked", () => blocked.promise);
+    enqueueWrite("sess-other", async () => {
+      other.resolve();
+    });
+
+    await other.promise;
+    blocked.resolve();
+  });
+
+  test("continues after a failed write and reports the error", async () => {
+    const errors: unknown[] = [];
+    const done = deferred();
+
+    enqueueWrite(
+      "sess-failing",
+      () => Promise.reject(new Error("violates foreign key constraint")),
+      (error) => errors.push(error),
+    );
+    enqueueWrite("sess-failing", async () => {
+      done.resolve();
+    });
+
+    await done.promise;
+    expect(errors).toHaveLength(1);
+    expect(getQuarantineStats().entries).toBe(0);
+  });
+
+  test("quarantines writes rejected for their data", async () => {
+    const errors: unknown[] = [];
+    const done = deferred();
+    const rejected = Object.assign(
+      new Error('insert or update on table "messages" violates foreign key constraint'),
+      { code: "23503" },
+    );
+
+    enqueueWrite(
+      "sess-rejected",
+      () => Promise.reject(rejected),
+      (error) => errors.push(error),
+    );
+    enqueueWrite("sess-rejected", async () => {
+      done.resolve();
+    });
+
+    await done.promise;
+    expect(errors).toEqual([rejected]);
+    expect(getQuarantineStats().entries).toBe(1);
+
+    const entry = JSON.parse(readFileSync(quarantinePath, "utf8"));
+    expect(entry.code).toBe("23503");
+    expect(entry.error).toContain("violates foreign key constraint");
+  });
+
+  test("records compaction with its snapshot in the kept statements", async () => {
+    const done = deferred();
+    const rejected = Object.assign(new Error("value too long for type"), {
+      code: "22001",
+    });
+    const storage = createPostgresStorage();
+    let attempts = 0;
+
+    // The first run is rejected; the retry is what gets recorded for replay.
+    enqueueWrite("sess-compact", async () => {
+      if (attempts++ === 0) {
+        throw rejected;
+      }
+      await storage.compactSession("sess-compact");
+    });
+    enqueueWrite("sess-compact", async () => {
+      done.resolve();
+    });
+
+    await done.promise;
+    const { statements } = readQuarantine().at(-1)!;
+    const queries = statements.map((statement) => statement.strings.join("?"));
+
+    expect(queries).toHaveLength(2);
+    expect(queries[0]).toMatch(
+      /INSERT INTO compactions[\s\S]*SELECT[\s\S]*FROM sessions WHERE id = \?/,
+    );
+    expect(statements[0]!.values).toEqual([{ value: "sess-compact" }]);
+    expect(queries[1]).toContain("status = 'compacted'");
+  });
+
+  test("retries busy writes when the spool is off, then dead-letters them", async () => {
+    const errors: unknown[] = [];
+    const busy = Object.assign(new Error("database is locked"), {
+      code: "SQLITE_BUSY",
+    });
+    const spooled = getSpoolStats().entries;
+    const quarantined = getQuarantineStats().entries;
+    let attempts = 0;
+    let retried = 0;
+
+    setSpoolEnabled(false);
+    try {
+      enqueueWrite(
+        "sess-unspooled",
+        async () => {
+          attempts++;
+          throw busy;
+        },
+        (error) => errors.push(error),
+      );
+      enqueueWrite(
+        "sess-unspooled",
+        async () => {
+          if (retried++ === 0) {
+            throw busy;
+          }
+        },
+        (error) => errors.push(error),
+      );
+      await drainWrites(1000);
+    } finally {
+      setSpoolEnabled(true);
+    }
+
+    expect(attempts).toBe(3);
+    expect(retried).toBe(2);
+    expect(errors).toEqual([busy]);
+    expect(getSpoolStats().entries).toBe(spooled);
+    expect(getQuarantineStats().entries).toBe(quarantined + 1);
+    expect(readQuarantine().at(-1)!.code).toBe("SQLITE_BUSY");
+  });
+
+  test("exposes queue depth per session", async () => {
+    const gate = deferred();
+
+    enqueueWrite("sess-depth", () => gate.promise);
+    enqueueWrite("sess-depth", () => Promise.resolve());
+    enqueueWrite("sess-depth", () => Promise.resolve());
+
+    const stats = getWriteQueueStats();
+    expect(stats.sessions["sess-depth"]).toBe(3);
+    expect(stats.pending).toBeGreaterThanOrEqual(3);
+    expect(stats.peak).toBeGreaterThanOrEqual(3);
+
+    gate.resolve();
+    await Bun.sleep(10);
+    expect(getWriteQueueStats().sessions["sess-depth"]).toBeUndefined();
+  });
+});
+
+describe("Transactions", () => {
+  test("commits a write's queries together", async () => {
+    sent.length = 0;
+    enqueueWrite("sess-commit", async () => {
+      await sql`INSERT INTO sessions (id) VALUES (${"sess-commit"})`;
+      await sql`UPDATE sessions SET title = 'a' WHERE id = ${"sess-commit"}`;
+    });
+    await drainWrites(1000);
+
+    expect(sent).toEqual([
+      "BEGIN",
+      "INSERT INTO sessions (id) VALUES (?)",
+      "UPDATE sessions SET title = 'a' WHERE id = ?",
+      "COMMIT",
+      "release",
+    ]);
+  });
+
+  test("rolls back a write rejected part-way and quarantines all of it", async () => {
+    const errors: unknown[] = [];
+    const rejected = Object.assign(new Error("value too long for type"), {
+      code: "22001",
+    });
+    sent.length = 0;
+    rejectQuery = {
+      query: "UPDATE sessions SET title = ? WHERE id = ?",
+      error: rejected,
+    };
+
+    try {
+      enqueueWrite(
+        "sess-rollback",
+        async () => {
+          await sql`INSERT INTO sessions (id) VALUES (${"sess-rollback"})`;
+          await sql`UPDATE sessions SET title = ${"x".repeat(10)} WHERE id = ${"sess-rollback"}`;
+        },
+        (error) => errors.push(error),
+      );
+      await drainWrites(1000);
+    } finally {
+      rejectQuery = undefined;
+    }
+
+    expect(errors).toEqual([rejected]);
+    expect(sent).toEqual([
+      "BEGIN",
+      "INSERT INTO sessions (id) VALUES (?)",
+      "UPDATE sessions SET title = ? WHERE id = ?",
+      "ROLLBACK",
+      "release",
+    ]);
+    expect(readQuarantine().at(-1)!.statements).toHaveLength(2);
+  });
+});
+
+describe("Drain", () => {
+  test("waits for queued and buffered writes to finish", async () => {
+    const written: string[] = [];
+
+    enqueueWrite("sess-drain", async () => {
+      await Bun.sleep(20);
+      written.push("queued");
+    });
+    bufferWrite("sess-drain", "part-1", "buffered", async (rows) => {
+      written.push(...rows);
+    });
+
+    expect(await drainWrites(1000)).toBe(0);
+    expect(written).toEqual(["queued", "buffered"]);
+  });
+
+  test("reports writes still pending at the deadline", async () => {
+    const gate = deferred();
+
+    enqueueWrite("sess-stuck", () => gate.promise);
+    enqueueWrite("sess-stuck", () => Promise.resolve());
+
+    const started = Date.now();
+    expect(await drainWrites(30)).toBe(2);
+    expect(Date.now() - started).toBeLessThan(500);
+
+    gate.resolve();
+    expect(await drainWrites(1000)).toBe(0);
+  });
+});
+
+describe("Write Buffer", () => {
+  test("coalesces rows with the same key into one batch", async () => {
+    const batches: Array<Array<{ id: string; text: string }>> = [];
+    const write = async (rows: Array<{ id: string; text: string }>) => {
+      batches.push(rows);
+    };
+
+    bufferWrite("sess-buffer", "part-1", { id: "part-1", text: "H" }, write);
+    bufferWrite("sess-buffer", "part-1", { id: "part-1", text: "He" }, write);
+    bufferWrite("sess-buffer", "part-2", { id: "part-2", text: "Hi" }, write);
+    bufferWrite("sess-buffer", "part-1", { id: "part-1", text: "Hello" }, write);
+
+    expect(getWriteQueueStats().buffered).toBe(2);
+
+    flushBufferedWrites("sess-buffer");
+    await Bun.sleep(10);
+
+    expect(batches).toEqual([
+      [
+        { id: "part-1", text: "Hello" },
+        { id: "part-2", text: "Hi" },
+      ],
+    ]);
+  });
+
+  test("flushes after the batch window", async () => {
+    let written = 0;
+
+    bufferWrite("sess-window", "part-1", {}, async (rows) => {
+      written += rows.length;
+    });
+
+    await Bun.sleep(400);
+    expect(written).toBe(1);
+  });
+
+  test("writes buffered rows before later writes for the session", async () => {
+    const order: string[] = [];
+
+    bufferWrite("sess-ordered", "part-1", "buffered", async (rows) => {
+      order.push(...rows);
+    });
+    enqueueWrite("sess-ordered", async () => {
+      order.push("queued");
+    });
+
+    await Bun.sleep(10);
+    expect(order).toEqual(["buffered", "queued"]);
+  });
+});
+
+describe("Spool Ordering", () => {
+  test("spools new writes behind entries still being replayed", async () => {
+    const gate = deferred();
+    const replayed: string[] = [];
+    appendToSpool([
+      {
+        strings: ["UPDATE sessions SET title = 'first' WHERE id = ", ""],
+        values: [{ value: "sess-spooled" }],
+      },
+    ]);
+
+    const replay = replaySpool(async (entry) => {
+      await gate.promise;
+      replayed.push(entry.statements[0]!.strings[0]!);
+    });
+    enqueueWrite("sess-spooled", async () => {
+      await sql`UPDATE sessions SET title = 'second' WHERE id = ${"sess-spooled"}`;
+    });
+    await Bun.sleep(10);
+
+    // The write waits in the spool rather than overtaking the replay.
+    expect(getSpoolStats().entries).toBe(2);
+    expect(readFileSync(getSpoolStats().path, "utf8")).toContain("title = 'second'");
+
+    gate.resolve();
+    await replay;
+    await replaySpool(async (entry) => {
+      replayed.push(entry.statements[0]!.strings[0]!);
+    });
+
+    expect(replayed).toEqual([
+      "UPDATE sessions SET title = 'first' WHERE id = ",
+      "UPDATE sessions SET title = 'second' WHERE id = ",
+    ]);
+    expect(getSpoolStats().entries).toBe(0);
+  });
+});
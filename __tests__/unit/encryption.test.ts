@@ -0,0 +1,209 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadConfig } from "../../config";
+import {
+  EncryptionError,
+  decryptRow,
+  decryptValue,
+  encryptArgs,
+  encryptValue,
+  isEncrypted,
+  rewrapEncryptedRows,
+} from "../../encryption";
+import { createSqliteStorage } from "../../storage/sqlite";
+
+const OLD_KEY = `old:${Buffer.alloc(32, 1).toString("base64")}`;
+const NEW_KEY = `new:${Buffer.alloc(32, 2).toString("base64")}`;
+
+const dir = mkdtempSync(join(tmpdir(), "opencode-db-encryption-"));
+
+function useKey(keyId: string, keys: string[]): void {
+  const file = join(dir, "config.json");
+  writeFileSync(
+    file,
+    JSON.stringify({ encryption: { enabled: true, keyId, keys } })
+  );
+  loadConfig({ ...process.env, OPENCODE_DB_CONFIG: file });
+}
+
+afterAll(() => {
+  loadConfig();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("encryptValue", () => {
+  test("round-trips strings and objects", () => {
+    useKey("old", [OLD_KEY]);
+
+    const text = encryptValue("hello");
+    const object = encryptValue({ output: "file.txt", lines: [1, 2] });
+
+    expect(text).toStartWith("enc:v1:old:");
+    expect(text).not.toContain("hello");
+    expect(decryptValue(text)).toBe("hello");
+    expect(decryptValue(object)).toEqual({ output: "file.txt", lines: [1, 2] });
+  });
+
+  test("uses a fresh data key for every value", () => {
+    useKey("old", [OLD_KEY]);
+    expect(encryptValue("same")).not.toBe(encryptValue("same"));
+  });
+
+  test("refuses to encrypt when encryption is off", () => {
+    loadConfig();
+    expect(() => encryptValue("hello")).toThrow(EncryptionError);
+  });
+});
+
+describe("decryptValue", () => {
+  test("passes unencrypted values through", () => {
+    expect(decryptValue("plain text")).toBe("plain text");
+    expect(decryptValue({ a: 1 })).toEqual({ a: 1 });
+    expect(decryptValue(null)).toBeNull();
+  });
+
+  test("reports a missing key by its ID", () => {
+    useKey("old", [OLD_KEY]);
+    const value = encryptValue("hello");
+
+    useKey("new", [NEW_KEY]);
+    expect(() => decryptValue(value)).toThrow('No encryption key with ID "old"');
+  });
+
+  test("rejects tampered ciphertext", () => {
+    useKey("old", [OLD_KEY]);
+    const value = encryptValue("hello");
+    const tampered = value.slice(0, -4) + (value.endsWith("AAAA") ? "BBBB" : "AAAA");
+
+    expect(() => decryptValue(tampered)).toThrow(EncryptionError);
+  });
+});
+
+describe("encryptArgs", () => {
+  test("encrypts content fields and tags rows with the key ID", () => {
+    useKey("old", [OLD_KEY]);
+
+    const [row] = encryptArgs("upsertMessage", [
+      { id: "m1", role: "user", text: "hi", content: { a: 1 }, systemPrompt: null },
+    ]) as Array<Record<string, unknown>>;
+
+    expect(row!.id).toBe("m1");
+    expect(row!.role).toBe("user");
+    expect(isEncrypted(row!.text)).toBe(true);
+    expect(isEncrypted(row!.content)).toBe(true);
+    expect(row!.systemPrompt).toBeNull();
+    expect(row!.encryptionKeyId).toBe("old");
+    expect(decryptRow(row!)).toMatchObject({ text: "hi", content: { a: 1 } });
+  });
+
+  test("encrypts every row of a batch", () => {
+    useKey("old", [OLD_KEY]);
+
+    const [rows] = encryptArgs("upsertStreamingParts", [
+      [{ text: "a" }, { text: "b" }],
+    ]) as Array<Array<Record<string, unknown>>>;
+
+    expect(rows!.map((row) => decryptValue(row.text))).toEqual(["a", "b"]);
+  });
+
+  test("leaves calls without content and disabled encryption alone", () => {
+    useKey("old", [OLD_KEY]);
+    const command = { sessionId: "s1", name: "review", args: "x" };
+    expect(encryptArgs("recordCommand", [command])).toEqual([command]);
+
+    loadConfig();
+    const message = { id: "m1", text: "hi" };
+    expect(encryptArgs("upsertMessage", [message])).toEqual([message]);
+  });
+});
+
+describe("rewrapEncryptedRows", () => {
+  test("moves rows written with an old key onto the current one", async () => {
+    const storage = createSqliteStorage(join(dir, "rewrap.db"));
+    await storage.connect();
+    await storage.migrate();
+
+    useKey("old", [OLD_KEY]);
+    const [message] = encryptArgs("upsertMessage", [
+      {
+        id: "m1",
+        sessionId: "s1",
+        role: "user",
+        modelProvider: null,
+        modelId: null,
+        text: "secret plans",
+        summary: null,
+        content: { parts: ["secret plans"] },
+        systemPrompt: null,
+      },
+    ]);
+    await storage.upsertMessage(message as Parameters<typeof storage.upsertMessage>[0]);
+
+    useKey("new", [OLD_KEY, NEW_KEY]);
+    expect(await rewrapEncryptedRows(storage, 100)).toBe(1);
+    expect(await rewrapEncryptedRows(storage, 100)).toBe(0);
+    await storage.close();
+
+    const db = new Database(join(dir, "rewrap.db"));
+    const row = db
+      .query<{ text: string; content: string; encryption_key_id: string }, []>(
+        "SELECT text, content, encryption_key_id FROM messages"
+      )
+      .get()!;
+    db.close();
+
+    expect(row.encryption_key_id).toBe("new");
+    expect(row.text).toStartWith("enc:v1:new:");
+
+    // The old key can be retired once nothing refers to it.
+    useKey("new", [NEW_KEY]);
+    expect(decryptValue(row.text)).toBe("secret plans");
+    expect(decryptValue(JSON.parse(row.content))).toEqual({
+      parts: ["secret plans"],
+    });
+  });
+
+  test("rewraps permission titles and patterns", async () => {
+    const storage = createSqliteStorage(join(dir, "rewrap-permissions.db"));
+    await storage.connect();
+    await storage.migrate();
+
+    useKey("old", [OLD_KEY]);
+    const [request] = encryptArgs("recordPermissionRequest", [
+      {
+        id: "perm-1",
+        sessionId: "s1",
+        messageId: null,
+        callId: null,
+        type: "bash",
+        patterns: ["git push *"],
+        title: "git push origin main",
+        requestedAt: new Date(),
+      },
+    ]);
+    await storage.recordPermissionRequest(
+      request as Parameters<typeof storage.recordPermissionRequest>[0]
+    );
+
+    useKey("new", [OLD_KEY, NEW_KEY]);
+    expect(await rewrapEncryptedRows(storage, 100)).toBe(1);
+    await storage.close();
+
+    const db = new Database(join(dir, "rewrap-permissions.db"));
+    const row = db
+      .query<{ title: string; patterns: string; encryption_key_id: string }, []>(
+        "SELECT title, patterns, encryption_key_id FROM permissions"
+      )
+      .get()!;
+    db.close();
+
+    expect(row.encryption_key_id).toBe("new");
+    expect(row.patterns).not.toContain("git push");
+    useKey("new", [NEW_KEY]);
+    expect(decryptValue(row.title)).toBe("git push origin main");
+    expect(decryptValue(JSON.parse(row.patterns))).toEqual(["git push *"]);
+  });
+});
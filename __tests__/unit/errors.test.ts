@@ -0,0 +1,48 @@
+import { describe, test, expect } from "bun:test";
+import { classifyError, QueryTimeoutError } from "../../errors";
+
+function withCode(code: string, message = code) {
+  return Object.assign(new Error(message), { code });
+}
+
+describe("classifyError", () => {
+  test("treats connection SQLSTATEs and socket errors as transient", () => {
+    expect(classifyError(withCode("08006"))).toBe("transient");
+    expect(classifyError(withCode("53300"))).toBe("transient");
+    expect(classifyError(withCode("57P01"))).toBe("transient");
+    expect(classifyError(withCode("40P01"))).toBe("transient");
+    expect(classifyError(withCode("55P03"))).toBe("transient");
+    expect(classifyError(withCode("ECONNREFUSED"))).toBe("transient");
+    expect(classifyError(withCode("CONNECTION_CLOSED"))).toBe("transient");
+    expect(classifyError(new QueryTimeoutError(10000))).toBe("transient");
+  });
+
+  test("treats constraint and data exceptions as data errors", () => {
+    expect(classifyError(withCode("23503"))).toBe("data");
+    expect(classifyError(withCode("23505"))).toBe("data");
+    expect(classifyError(withCode("22P02"))).toBe("data");
+    expect(classifyError(withCode("SQLITE_CONSTRAINT_FOREIGNKEY"))).toBe("data");
+  });
+
+  test("treats everything else as permanent", () => {
+    expect(classifyError(withCode("42P01"))).toBe("permanent");
+    expect(classifyError(withCode("28P01"))).toBe("permanent");
+    expect(classifyError(withCode("SQLITE_ERROR"))).toBe("permanent");
+    expect(classifyError(new Error("boom"))).toBe("permanent");
+    expect(classifyError("boom")).toBe("permanent");
+  });
+
+  test("ignores message text that merely mentions connections or timeouts", () => {
+    const error = withCode(
+      "23514",
+      'new row for relation "sessions" violates check constraint "connection_timeout_check"',
+    );
+    expect(classifyError(error)).toBe("data");
+    expect(classifyError(new Error("connection timeout"))).toBe("permanent");
+  });
+
+  test("classifies a failed multi-address connect by its first error", () => {
+    const error = new AggregateError([withCode("ECONNREFUSED")], "connect failed");
+    expect(classifyError(error)).toBe("transient");
+  });
+});
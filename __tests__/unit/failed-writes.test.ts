@@ -0,0 +1,188 @@
+import {
+  describe,
+  test,
+  expect,
+  beforeEach,
+  afterEach,
+  afterAll,
+} from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+const dir = mkdtempSync(join(tmpdir(), "opencode-db-failed-writes-"));
+process.env.OPENCODE_DB_QUARANTINE_PATH = join(dir, "quarantine.jsonl");
+
+const { loadConfig } = await import("../../config");
+const { createSqliteStorage } = await import("../../storage/sqlite");
+const { reprocessFailedWrites } = await import("../../failed-writes");
+const { appendToQuarantine, readQuarantine, rewriteQuarantine } = await import(
+  "../../quarantine"
+);
+import type { Storage } from "../../storage/types";
+
+// Config is cached per process, so pick up the quarantine path set above.
+loadConfig();
+
+let path: string;
+let storage: Storage;
+let dbCount = 0;
+
+beforeEach(async () => {
+  rewriteQuarantine([], readQuarantine().length);
+  path = join(dir, `failed-writes-${++dbCount}.db`);
+  storage = createSqliteStorage(path);
+  await storage.connect();
+  await storage.migrate();
+});
+
+afterEach(async () => {
+  await storage.close();
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+  delete process.env.OPENCODE_DB_QUARANTINE_PATH;
+  loadConfig();
+});
+
+function query<T>(sql: string): T[] {
+  const db = new Database(path, { readonly: true });
+  try {
+    return db.query(sql).all() as T[];
+  } finally {
+    db.close();
+  }
+}
+
+const session = {
+  id: "sess-1",
+  title: "Session",
+  parentId: null,
+  projectId: null,
+  directory: null,
+};
+
+const toolStart = {
+  correlationId: "corr-1",
+  sessionId: "sess-1",
+  toolName: "bash",
+  args: null,
+  startedAt: new Date("2026-01-01T00:00:00Z"),
+};
+
+describe("reprocessFailedWrites", () => {
+  test("resolves a dead-lettered write once it can succeed", async () => {
+    await storage.recordFailedWrite({
+      sessionId: "sess-1",
+      eventType: "tool.execute.before",
+      operation: "recordToolStart",
+      payload: [toolStart],
+      errorCode: "SQLITE_CONSTRAINT_FOREIGNKEY",
+      errorMessage: "FOREIGN KEY constraint failed",
+    });
+
+    await storage.upsertSession(session);
+    const result = await reprocessFailedWrites(storage, 10);
+
+    expect(result).toEqual({ attempted: 1, succeeded: 1, failed: 0 });
+    expect(await storage.listFailedWrites(10)).toEqual([]);
+    expect(
+      query<{ correlation_id: string }>(
+        "SELECT correlation_id FROM tool_executions"
+      )
+    ).toEqual([{ correlation_id: "corr-1" }]);
+  });
+
+  test("records another attempt when the write still fails", async () => {
+    await storage.recordFailedWrite({
+      sessionId: "sess-1",
+      eventType: "tool.execute.before",
+      operation: "recordToolStart",
+      payload: [toolStart],
+      errorCode: "SQLITE_CONSTRAINT_FOREIGNKEY",
+      errorMessage: "FOREIGN KEY constraint failed",
+    });
+
+    const result = await reprocessFailedWrites(storage, 10);
+    const [pending] = await storage.listFailedWrites(10);
+
+    expect(result).toEqual({ attempted: 1, succeeded: 0, failed: 1 });
+    expect(pending?.attempts).toBe(2);
+    expect(pending?.errorCode).toStartWith("SQLITE_CONSTRAINT");
+  });
+
+  test("replays described writes from the quarantine file", async () => {
+    await storage.upsertSession(session);
+    appendToQuarantine({
+      sessionId: "sess-1",
+      eventType: "tool.execute.before",
+      operation: "recordToolStart",
+      args: [JSON.parse(JSON.stringify(toolStart))],
+      code: "SQLITE_CONSTRAINT_FOREIGNKEY",
+      error: "FOREIGN KEY constraint failed",
+      statements: [],
+    });
+    appendToQuarantine({
+      sessionId: null,
+      eventType: null,
+      operation: null,
+      args: null,
+      code: "23505",
+      error: "duplicate key",
+      statements: [],
+    });
+
+    const result = await reprocessFailedWrites(storage, 10);
+
+    expect(result).toEqual({ attempted: 1, succeeded: 1, failed: 0 });
+    // Statements without a logical payload stay for manual inspection.
+    expect(readQuarantine().map((entry) => entry.code)).toEqual(["23505"]);
+    expect(
+      query<{ started_at: string }>("SELECT started_at FROM tool_executions")
+    ).toEqual([{ started_at: "2026-01-01T00:00:00.000Z" }]);
+  });
+
+  test("refuses to replay operations outside the write path", async () => {
+    await storage.recordFailedWrite({
+      sessionId: null,
+      eventType: "session.created",
+      operation: "close",
+      payload: [],
+      errorCode: null,
+      errorMessage: "tampered",
+    });
+
+    const result = await reprocessFailedWrites(storage, 10);
+    const [pending] = await storage.listFailedWrites(10);
+
+    expect(result.failed).toBe(1);
+    expect(pending?.errorMessage).toContain('Unknown write operation "close"');
+  });
+
+  test("refuses to replay a purge", async () => {
+    await storage.upsertSession({
+      id: "s-kept",
+      title: null,
+      parentId: null,
+      projectId: null,
+      directory: null,
+    });
+    await storage.recordFailedWrite({
+      sessionId: null,
+      eventType: "session.created",
+      operation: "purge",
+      payload: [{ sessionDays: -1, toolResultDays: -1, deletedSessionDays: -1 }],
+      errorCode: null,
+      errorMessage: "tampered",
+    });
+
+    const result = await reprocessFailedWrites(storage, 10);
+    const [pending] = await storage.listFailedWrites(10);
+
+    expect(result.failed).toBe(1);
+    expect(pending?.errorMessage).toContain('Unknown write operation "purge"');
+    expect(query("SELECT id FROM sessions")).toEqual([{ id: "s-kept" }]);
+  });
+});
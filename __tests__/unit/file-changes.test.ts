@@ -0,0 +1,123 @@
+import { describe, test, expect } from "bun:test";
+import {
+  countDiffLines,
+  extractFileChanges,
+  isFileChangeTool,
+  parsePatch,
+} from "../../file-changes";
+
+const EDIT_DIFF = [
+  "Index: /work/app/src/a.ts",
+  "===================================================================",
+  "--- /work/app/src/a.ts",
+  "+++ /work/app/src/a.ts",
+  "@@ -1,3 +1,3 @@",
+  " const a = 1;",
+  "-const b = 2;",
+  "+const b = 3;",
+  "+const c = 4;",
+  "",
+].join("\n");
+
+describe("countDiffLines", () => {
+  test("counts hunk lines and skips file headers", () => {
+    expect(countDiffLines(EDIT_DIFF)).toEqual({ added: 2, removed: 1 });
+  });
+});
+
+describe("parsePatch", () => {
+  test("splits a patch into one change per file", () => {
+    const patch = [
+      "*** Begin Patch",
+      "*** Add File: docs/new.md",
+      "+# New",
+      "+",
+      "*** Update File: src/a.ts",
+      "*** Move to: src/b.ts",
+      "@@ function a() {",
+      "-  return 1;",
+      "+  return 2;",
+      "*** Delete File: src/old.ts",
+      "*** End Patch",
+    ].join("\n");
+
+    expect(parsePatch(patch)).toEqual([
+      {
+        filePath: "docs/new.md",
+        operation: "create",
+        linesAdded: 2,
+        linesRemoved: 0,
+        diff: "+# New\n+",
+      },
+      {
+        filePath: "src/b.ts",
+        operation: "move",
+        linesAdded: 1,
+        linesRemoved: 1,
+        diff: "@@ function a() {\n-  return 1;\n+  return 2;",
+      },
+      {
+        filePath: "src/old.ts",
+        operation: "delete",
+        linesAdded: 0,
+        linesRemoved: null,
+        diff: null,
+      },
+    ]);
+  });
+});
+
+describe("extractFileChanges", () => {
+  test("reads edits from the diff in their metadata", () => {
+    expect(
+      extractFileChanges(
+        "edit",
+        { filePath: "/work/app/src/a.ts", oldString: "2", newString: "3" },
+        { diff: EDIT_DIFF },
+        "/work/app"
+      )
+    ).toEqual([
+      {
+        filePath: "src/a.ts",
+        operation: "update",
+        linesAdded: 2,
+        linesRemoved: 1,
+        diff: EDIT_DIFF,
+      },
+    ]);
+  });
+
+  test("counts the lines of newly written files", () => {
+    const [created] = extractFileChanges(
+      "write",
+      { filePath: "/work/app/new.txt", content: "a\nb\nc\n" },
+      { exists: false },
+      "/work/app"
+    );
+    expect(created).toMatchObject({
+      filePath: "new.txt",
+      operation: "create",
+      linesAdded: 3,
+      linesRemoved: 0,
+    });
+
+    const [overwritten] = extractFileChanges(
+      "write",
+      { filePath: "/elsewhere/old.txt", content: "a" },
+      { exists: true },
+      "/work/app"
+    );
+    expect(overwritten).toMatchObject({
+      filePath: "/elsewhere/old.txt",
+      operation: "update",
+      linesAdded: null,
+      linesRemoved: null,
+    });
+  });
+
+  test("ignores tools that don't change files", () => {
+    expect(isFileChangeTool("bash")).toBe(false);
+    expect(isFileChangeTool("patch")).toBe(true);
+    expect(extractFileChanges("read", { filePath: "/a" }, {}, null)).toEqual([]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, test, expect } from "bun:test";
+import type postgres from "postgres";
+import {
+  MIGRATIONS,
+  LATEST_SCHEMA_VERSION,
+  SchemaVersionError,
+  runMigrations,
+  type Migration,
+} from "../../migrations";
+
+function createMockSql(currentVersion: number | null) {
+  const queries: string[] = [];
+  const tx = Object.assign(
+    (strings: TemplateStringsArray, ..._values: unknown[]) => {
+      const query = strings.join("?");
+      queries.push(query);
+      if (query.includes("MAX(version)")) {
+        return Promise.resolve([{ version: currentVersion }]);
+      }
+      return Promise.resolve([]);
+    },
+    {
+      unsafe: (query: string) => {
+        queries.push(query);
+        return Promise.resolve([]);
+      },
+    },
+  );
+  const sql = {
+    begin: (fn: (tx: unknown) => Promise<unknown>) => fn(tx),
+  } as unknown as postgres.Sql;
+  return { sql, queries };
+}
+
+const testMigrations: Migration[] = [
+  { version: 1, name: "initial", sql: "CREATE TABLE a ()" },
+  { version: 2, name: "add_b", sql: "CREATE TABLE b ()" },
+];
+
+describe("Migrations", () => {
+  test("migration versions are sequential starting at 1", () => {
+    MIGRATIONS.forEach((migration, index) => {
+      expect(migration.version).toBe(index + 1);
+      expect(migration.sql.length).toBeGreaterThan(0);
+    });
+    expect(LATEST_SCHEMA_VERSION).toBe(MIGRATIONS.length);
+  });
+
+  test("applies all migrations to an empty database under an advisory lock", async () => {
+    const { sql, queries } = createMockSql(null);
+
+    const result = await runMigrations(sql, testMigrations);
+
+    expect(queries[0]).toContain("pg_advisory_xact_lock");
+    expect(queries.some((q) => q.includes("CREATE TABLE IF NOT EXISTS schema_migrations"))).toBe(true);
+    expect(queries).toContain("CREATE TABLE a ()");
+    expect(queries).toContain("CREATE TABLE b ()");
+    expect(result).toMatchObject({ from: 0, to: 2 });
+    expect(result.applied.map((m) => m.version)).toEqual([1, 2]);
+  });
+
+  test("applies only pending migrations", async () => {
+    const { sql, queries } = createMockSql(1);
+
+    const result = await runMigrations(sql, testMigrations);
+
+    expect(queries).not.toContain("CREATE TABLE a ()");
+    expect(queries).toContain("CREATE TABLE b ()");
+    expect(result).toMatchObject({ from: 1, to: 2 });
+  });
+
+  test("does nothing when the schema is current", async () => {
+    const { sql } = createMockSql(2);
+
+    const result = await runMigrations(sql, testMigrations);
+
+    expect(result.applied).toHaveLength(0);
+    expect(result).toMatchObject({ from: 2, to: 2 });
+  });
+
+  test("refuses to run against a newer schema", async () => {
+    const { sql, queries } = createMockSql(3);
+
+    await expect(runMigrations(sql, testMigrations)).rejects.toBeInstanceOf(
+      SchemaVersionError,
+    );
+    expect(queries).not.toContain("CREATE TABLE a ()");
+  });
+});
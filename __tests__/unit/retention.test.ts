@@ -0,0 +1,102 @@
+import { describe, test, expect, beforeEach, afterEach, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { hasRetentionRules, rowsTouched, runRetention } from "../../retention";
+import { createSqliteStorage } from "../../storage/sqlite";
+import type { Storage } from "../../storage/types";
+
+const dir = mkdtempSync(join(tmpdir(), "opencode-db-retention-"));
+
+let path: string;
+let storage: Storage;
+let dbCount = 0;
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+beforeEach(async () => {
+  path = join(dir, `retention-${++dbCount}.db`);
+  storage = createSqliteStorage(path);
+  await storage.connect();
+  await storage.migrate();
+});
+
+afterEach(async () => {
+  await storage.close();
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function seed(): void {
+  const db = new Database(path);
+  db.run("PRAGMA foreign_keys = ON");
+  const addSession = db.prepare(
+    "INSERT INTO sessions (id, status, created_at, updated_at, deleted_at) VALUES (?, 'idle', ?, ?, ?)"
+  );
+  addSession.run("stale", daysAgo(40), daysAgo(40), null);
+  addSession.run("deleted", daysAgo(2), daysAgo(2), daysAgo(10));
+  addSession.run("recent", daysAgo(1), daysAgo(1), null);
+
+  db.run("INSERT INTO messages (id, session_id, role) VALUES ('m1', 'recent', 'assistant')");
+  db.run(
+    "INSERT INTO message_parts (id, message_id, part_type, content, created_at) VALUES ('p1', 'm1', 'tool', ?, ?)",
+    [JSON.stringify({ state: { status: "completed", input: { a: 1 }, output: "big" } }), daysAgo(20)]
+  );
+  db.run(
+    "INSERT INTO tool_executions (correlation_id, session_id, tool_name, result, created_at) VALUES ('c1', 'recent', 'bash', '\"big\"', ?)",
+    [daysAgo(20)]
+  );
+  db.close();
+}
+
+function read<T>(query: string): T[] {
+  const db = new Database(path);
+  const rows = db.query<T, []>(query).all();
+  db.close();
+  return rows;
+}
+
+describe("runRetention", () => {
+  test("deletes expired and soft-deleted sessions and strips old tool results", async () => {
+    seed();
+
+    const result = await runRetention(storage, {
+      sessionDays: 30,
+      toolResultDays: 14,
+      deletedSessionDays: 7,
+    });
+
+    expect(result).toEqual({ expiredSessions: 1, deletedSessions: 1, toolResults: 2 });
+    expect(rowsTouched(result!)).toBe(4);
+    expect(read<{ id: string }>("SELECT id FROM sessions").map((r) => r.id)).toEqual([
+      "recent",
+    ]);
+
+    const [part] = read<{ content: string }>("SELECT content FROM message_parts");
+    expect(JSON.parse(part!.content)).toEqual({
+      state: { status: "completed", input: { a: 1 } },
+    });
+    const [execution] = read<{ result: string | null; tool_name: string }>(
+      "SELECT result, tool_name FROM tool_executions"
+    );
+    expect(execution).toEqual({ result: null, tool_name: "bash" });
+  });
+
+  test("leaves everything alone when no rule is set", async () => {
+    seed();
+    const rules = { sessionDays: 0, toolResultDays: 0, deletedSessionDays: 0 };
+
+    expect(hasRetentionRules(rules)).toBe(false);
+    expect(await runRetention(storage, rules)).toEqual({
+      expiredSessions: 0,
+      deletedSessions: 0,
+      toolResults: 0,
+    });
+    expect(read("SELECT id FROM sessions")).toHaveLength(3);
+  });
+});
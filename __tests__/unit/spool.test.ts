@@ -0,0 +1,142 @@
+import { describe, test, expect, beforeEach, afterAll } from "bun:test";
+import {
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+const spoolDir = mkdtempSync(join(tmpdir(), "opencode-db-spool-"));
+const spoolPath = join(spoolDir, `spool.${process.pid}.jsonl`);
+
+process.env.OPENCODE_DB_SPOOL_PATH = join(spoolDir, "spool.jsonl");
+process.env.OPENCODE_DB_SPOOL_MAX_BYTES = "1024";
+
+// The configuration may already have been resolved by another test file.
+const { loadConfig } = await import("../../config");
+loadConfig();
+
+const { appendToSpool, getSpoolStats, replaySpool } = await import(
+  "../../spool"
+);
+
+function statement(id: string) {
+  return {
+    strings: ["INSERT INTO sessions (id) VALUES (", ")"],
+    values: [{ value: id }],
+  };
+}
+
+async function drain() {
+  await replaySpool(async () => {});
+}
+
+beforeEach(async () => {
+  await drain();
+  rmSync(spoolPath, { force: true });
+});
+
+afterAll(() => {
+  rmSync(spoolDir, { recursive: true, force: true });
+});
+
+describe("Spool", () => {
+  test("appends entries and reports what is waiting", () => {
+    expect(appendToSpool([statement("sess-1")])).toBe(true);
+    expect(appendToSpool([statement("sess-2")])).toBe(true);
+
+    const stats = getSpoolStats();
+    expect(stats.path).toBe(spoolPath);
+    expect(stats.entries).toBe(2);
+    expect(stats.bytes).toBe(readFileSync(spoolPath).byteLength);
+  });
+
+  test("drops writes once the size cap is reached", () => {
+    const before = getSpoolStats().dropped;
+    let accepted = 0;
+    for (let i = 0; i < 50; i++) {
+      if (appendToSpool([statement(`sess-${i}`)])) {
+        accepted++;
+      }
+    }
+
+    const stats = getSpoolStats();
+    expect(accepted).toBeLessThan(50);
+    expect(stats.entries).toBe(accepted);
+    expect(stats.bytes).toBeLessThanOrEqual(stats.maxBytes);
+    expect(stats.dropped - before).toBe(50 - accepted);
+  });
+
+  test("replays entries in order and empties the spool", async () => {
+    appendToSpool([statement("sess-1")]);
+    appendToSpool([statement("sess-2"), statement("sess-3")]);
+
+    const replayed: string[] = [];
+    const count = await replaySpool(async (entry) => {
+      for (const s of entry.statements) {
+        replayed.push((s.values[0] as { value: string }).value);
+      }
+    });
+
+    expect(count).toBe(2);
+    expect(replayed).toEqual(["sess-1", "sess-2", "sess-3"]);
+    expect(getSpoolStats().entries).toBe(0);
+    expect(readFileSync(spoolPath, "utf8")).toBe("");
+  });
+
+  test("keeps the failed entry and everything after it", async () => {
+    appendToSpool([statement("sess-1")]);
+    appendToSpool([statement("sess-2")]);
+    appendToSpool([statement("sess-3")]);
+
+    const count = await replaySpool(async (entry) => {
+      if ((entry.statements[0]!.values[0] as { value: string }).value === "sess-2") {
+        throw new Error("connection refused");
+      }
+    });
+
+    expect(count).toBe(1);
+    expect(getSpoolStats().entries).toBe(2);
+    const lines = readFileSync(spoolPath, "utf8").trim().split("\n");
+    expect(lines[0]).toContain("sess-2");
+    expect(lines[1]).toContain("sess-3");
+  });
+
+  test("preserves entries appended during a replay", async () => {
+    appendToSpool([statement("sess-1")]);
+
+    await replaySpool(async () => {
+      appendToSpool([statement("sess-late")]);
+    });
+
+    expect(getSpoolStats().entries).toBe(1);
+    expect(readFileSync(spoolPath, "utf8")).toContain("sess-late");
+  });
+
+  test("adopts spools left by exited processes and the shared file", () => {
+    const dir = mkdtempSync(join(tmpdir(), "opencode-db-spool-"));
+    const line = (id: string) =>
+      JSON.stringify({ spooledAt: 0, statements: [statement(id)] }) + "\n";
+    const exited = Bun.spawnSync(["true"]).pid;
+    writeFileSync(join(dir, `spool.${exited}.jsonl`), line("sess-exited"));
+    writeFileSync(join(dir, "spool.jsonl"), line("sess-shared"));
+    writeFileSync(join(dir, `spool.${process.ppid}.jsonl`), line("sess-live"));
+
+    try {
+      loadConfig({ ...process.env, OPENCODE_DB_SPOOL_PATH: join(dir, "spool.jsonl") });
+      const stats = getSpoolStats();
+
+      expect(stats.path).toBe(join(dir, `spool.${process.pid}.jsonl`));
+      expect(stats.entries).toBe(2);
+      expect(readdirSync(dir).sort()).toEqual(
+        [`spool.${process.pid}.jsonl`, `spool.${process.ppid}.jsonl`].sort()
+      );
+    } finally {
+      loadConfig();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
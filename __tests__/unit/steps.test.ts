@@ -0,0 +1,83 @@
+import { describe, test, expect } from "bun:test";
+import { addStepToolCall, cleanupSteps, finishStep, startStep } from "../../steps";
+
+function part(id: string, messageID: string, type: string, extra: object = {}) {
+  return { id, sessionID: "sess-steps", messageID, type, ...extra };
+}
+
+describe("steps", () => {
+  test("pairs each step-finish with the step-start before it", () => {
+    const t0 = new Date("2025-01-01T00:00:00Z");
+    const t1 = new Date("2025-01-01T00:00:02Z");
+
+    expect(startStep(part("start-1", "msg-a", "step-start"), t0)).toEqual({
+      id: "start-1",
+      sessionId: "sess-steps",
+      messageId: "msg-a",
+      stepIndex: 0,
+      startedAt: t0,
+    });
+    addStepToolCall(part("tool-1", "msg-a", "tool", { callID: "call-1", tool: "bash" }));
+    addStepToolCall(part("tool-1", "msg-a", "tool", { callID: "call-1", tool: "bash" }));
+    addStepToolCall(part("tool-2", "msg-a", "tool", { callID: "call-2", tool: "read" }));
+
+    const finished = finishStep(
+      part("finish-1", "msg-a", "step-finish", {
+        reason: "tool-calls",
+        cost: 0.02,
+        tokens: { input: 100, output: 10, reasoning: 0, cache: { read: 50, write: 5 } },
+      }),
+      t1
+    );
+
+    expect(finished).toEqual({
+      id: "start-1",
+      sessionId: "sess-steps",
+      messageId: "msg-a",
+      stepIndex: 0,
+      startedAt: t0,
+      finishPartId: "finish-1",
+      finishedAt: t1,
+      durationMs: 2000,
+      reason: "tool-calls",
+      tokens: { input: 100, output: 10, reasoning: 0, cacheRead: 50, cacheWrite: 5 },
+      cost: 0.02,
+      toolCalls: [
+        { callId: "call-1", tool: "bash" },
+        { callId: "call-2", tool: "read" },
+      ],
+    });
+
+    const next = startStep(part("start-2", "msg-a", "step-start"), t1);
+    expect(next?.stepIndex).toBe(1);
+  });
+
+  test("ignores repeated parts", () => {
+    startStep(part("start-r", "msg-b", "step-start"));
+    expect(startStep(part("start-r", "msg-b", "step-start"))).toBeNull();
+
+    expect(finishStep(part("finish-r", "msg-b", "step-finish"))).not.toBeNull();
+    expect(finishStep(part("finish-r", "msg-b", "step-finish"))).toBeNull();
+  });
+
+  test("records a finish without a start as a step of its own", () => {
+    const step = finishStep(part("finish-only", "msg-c", "step-finish", { reason: "stop" }));
+
+    expect(step).toMatchObject({
+      id: "finish-only",
+      stepIndex: 0,
+      startedAt: null,
+      durationMs: null,
+      reason: "stop",
+      toolCalls: [],
+    });
+  });
+
+  test("forgets steps of messages that went quiet", () => {
+    const t0 = new Date("2025-01-01T00:00:00Z");
+    startStep(part("start-old", "msg-d", "step-start"), t0);
+    cleanupSteps(1000, t0.getTime() + 5000);
+
+    expect(startStep(part("start-new", "msg-d", "step-start"))?.stepIndex).toBe(0);
+  });
+});
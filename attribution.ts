@@ -0,0 +1,41 @@
+import { hostname, userInfo } from "node:os";
+import pkg from "./package.json" with { type: "json" };
+import { getConfig } from "./config";
+
+export const PLUGIN_VERSION: string = pkg.version;
+
+/** Who ran a session, where, and with which versions. */
+export interface SessionAttribution {
+  osUser: string | null;
+  hostname: string | null;
+  memberId: string | null;
+  opencodeVersion: string | null;
+  pluginVersion: string;
+}
+
+function osUser(): string | null {
+  try {
+    return userInfo().username;
+  } catch {
+    // No passwd entry for the current uid, as in some containers.
+    return process.env.USER || process.env.USERNAME || null;
+  }
+}
+
+/**
+ * Attribution for a session created by `opencodeVersion`. With
+ * `capture.attribution` off, only the versions are kept.
+ */
+export function getAttribution(
+  opencodeVersion: string | null
+): SessionAttribution {
+  const { capture, memberId } = getConfig();
+  const identify = capture.attribution;
+  return {
+    osUser: identify ? osUser() : null,
+    hostname: identify ? hostname() : null,
+    memberId: identify && memberId ? memberId : null,
+    opencodeVersion,
+    pluginVersion: PLUGIN_VERSION,
+  };
+}
@@ -0,0 +1,204 @@
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { getConfig, type CaptureFilter } from "./config";
+
+/**
+ * What a payload belongs to. Dimensions left undefined or null aren't
+ * checked, so a tool's output is judged by its tool name alone.
+ */
+export interface CaptureSubject {
+  tool?: string | null;
+  partType?: string | null;
+  role?: string | null;
+}
+
+/** Where a session runs, for deciding whether it is logged at all. */
+export interface SessionSubject {
+  directory?: string | null;
+  projectId?: string | null;
+}
+
+/** Stands in for an oversized object payload. */
+export interface PayloadMarker {
+  truncated?: true;
+  preview?: string;
+  sha256?: string;
+  originalBytes: number;
+}
+
+const globs = new Map<string, Bun.Glob>();
+
+export function matchesGlob(pattern: string, value: string): boolean {
+  let glob = globs.get(pattern);
+  if (!glob) {
+    glob = new Bun.Glob(pattern);
+    globs.set(pattern, glob);
+  }
+  return glob.match(value);
+}
+
+function passes(filter: CaptureFilter, value: string | null | undefined): boolean {
+  if (value === undefined || value === null) {
+    return true;
+  }
+  if (filter.exclude.some((pattern) => matchesGlob(pattern, value))) {
+    return false;
+  }
+  return (
+    filter.include.length === 0 ||
+    filter.include.some((pattern) => matchesGlob(pattern, value))
+  );
+}
+
+/**
+ * Whether the capture policy lets a payload be stored. Exclusions win over
+ * inclusions, and an empty include list includes everything.
+ */
+export function isCaptured(subject: CaptureSubject): boolean {
+  const { capture } = getConfig();
+  return (
+    passes(capture.tools, subject.tool) &&
+    passes(capture.partTypes, subject.partType) &&
+    passes(capture.roles, subject.role)
+  );
+}
+
+/**
+ * Whether `directory`, or a parent of it up to the repository root, contains
+ * the `capture.optOutMarker` file.
+ */
+export function hasOptOutMarker(directory: string): boolean {
+  const { optOutMarker } = getConfig().capture;
+  let current = directory;
+  while (true) {
+    if (existsSync(join(current, optOutMarker))) {
+      return true;
+    }
+    const parent = dirname(current);
+    if (parent === current || existsSync(join(current, ".git"))) {
+      return false;
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Whether a session is logged at all, judged by its directory and project ID
+ * against the capture policy and by the opt-out marker in its repository.
+ */
+export function isSessionCaptured(session: SessionSubject): boolean {
+  const { capture } = getConfig();
+  return (
+    passes(capture.directories, session.directory) &&
+    passes(capture.projects, session.projectId) &&
+    !(session.directory && hasOptOutMarker(session.directory))
+  );
+}
+
+function truncateText(text: string, maxBytes: number): string {
+  // Decoding a cut-off multi-byte character yields U+FFFD; drop it.
+  return Buffer.from(text)
+    .subarray(0, maxBytes)
+    .toString("utf8")
+    .replace(/\uFFFD$/, "");
+}
+
+/**
+ * Applies `capture.maxPayloadBytes` to a payload. Oversized strings are cut
+ * short or replaced by their hash, with a trailing marker giving the original
+ * size; oversized objects are replaced by a PayloadMarker.
+ */
+export function limitPayload(value: string): string;
+export function limitPayload(value: string | null): string | null;
+export function limitPayload(value: unknown): unknown;
+export function limitPayload(value: unknown): unknown {
+  const { maxPayloadBytes, oversized } = getConfig().capture;
+  if (maxPayloadBytes === 0 || value === undefined || value === null) {
+    return value;
+  }
+
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  const originalBytes = Buffer.byteLength(text);
+  if (originalBytes <= maxPayloadBytes) {
+    return value;
+  }
+
+  if (oversized === "hash") {
+    const sha256 = createHash("sha256").update(text).digest("hex");
+    return typeof value === "string"
+      ? `[omitted: sha256 ${sha256}, ${originalBytes} bytes]`
+      : ({ sha256, originalBytes } satisfies PayloadMarker);
+  }
+
+  const preview = truncateText(text, maxPayloadBytes);
+  return typeof value === "string"
+    ? `${preview}\n[truncated: ${originalBytes} bytes]`
+    : ({ truncated: true, preview, originalBytes } satisfies PayloadMarker);
+}
+
+/**
+ * Payloads whose size is limited, by storage operation. Dotted paths reach
+ * into objects. Limits are applied after redaction, so a cut can't leave half
+ * a secret the detectors no longer recognise.
+ */
+const LIMITED_FIELDS: Record<string, string[]> = {
+  upsertMessage: ["text", "content", "systemPrompt"],
+  upsertPart: [
+    "text",
+    "content.text",
+    "content.state.input",
+    "content.state.output",
+    "content.state.metadata",
+  ],
+  upsertStreamingParts: [
+    "text",
+    "content.text",
+    "content.state.input",
+    "content.state.output",
+    "content.state.metadata",
+  ],
+  recordToolStart: ["args"],
+  recordToolEnd: ["result"],
+  recordToolExecution: ["args", "result"],
+  recordFileChanges: ["diff"],
+};
+
+function limitPath(value: unknown, path: string[]): unknown {
+  const [key, ...rest] = path;
+  if (key === undefined) {
+    return limitPayload(value);
+  }
+  if (typeof value !== "object" || value === null || !(key in value)) {
+    return value;
+  }
+  const record = value as Record<string, unknown>;
+  return { ...record, [key]: limitPath(record[key], rest) };
+}
+
+function limitFields<T>(row: T, fields: string[]): T {
+  return fields.reduce<unknown>(
+    (limited, field) => limitPath(limited, field.split(".")),
+    row
+  ) as T;
+}
+
+/** Limits the payloads in the arguments of a storage call, alone or in batches. */
+export function limitArgs(operation: string, args: unknown[]): unknown[] {
+  const fields = LIMITED_FIELDS[operation];
+  if (!fields) {
+    return args;
+  }
+
+  return args.map((arg) => {
+    if (Array.isArray(arg)) {
+      return arg.map((row) => limitFields(row, fields));
+    }
+    return typeof arg === "object" && arg !== null ? limitFields(arg, fields) : arg;
+  });
+}
+
+/** Limits the payloads of one row bound for `operation`, as limitArgs does. */
+export function limitRow<T extends object>(operation: string, row: T): T {
+  return limitArgs(operation, [row])[0] as T;
+}
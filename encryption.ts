@@ -0,0 +1,242 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import { getConfig, type DatabasePluginConfig } from "./config";
+import {
+  ENCRYPTED_COLUMNS,
+  type EncryptedTable,
+  type Storage,
+} from "./storage/types";
+
+/**
+ * Encrypted values are stored as
+ * `enc:v1:<key id>:<wrapped data key>:<ciphertext>`, both parts base64 of
+ * IV + AES-256-GCM output + tag. Each value gets its own random data key,
+ * wrapped with the configured key, so rotating keys only rewraps data keys.
+ */
+const PREFIX = "enc:v1:";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export class EncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EncryptionError";
+  }
+}
+
+interface Keyring {
+  currentId: string | null;
+  keys: Map<string, Buffer>;
+}
+
+let keyringFor: DatabasePluginConfig["encryption"] | undefined;
+let keyring: Keyring = { currentId: null, keys: new Map() };
+
+/** Parses `<id>:<base64 key>` entries; config validation has vetted them. */
+function getKeyring(): Keyring {
+  const { encryption } = getConfig();
+  if (keyringFor !== encryption) {
+    keyringFor = encryption;
+    const keys = new Map<string, Buffer>();
+    for (const entry of encryption.keys) {
+      const separator = entry.indexOf(":");
+      keys.set(
+        entry.slice(0, separator),
+        Buffer.from(entry.slice(separator + 1), "base64")
+      );
+    }
+    keyring = {
+      currentId: encryption.enabled ? encryption.keyId : null,
+      keys,
+    };
+  }
+  return keyring;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]).toString("base64");
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const bytes = Buffer.from(sealed, "base64");
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    key,
+    bytes.subarray(0, IV_BYTES)
+  );
+  decipher.setAuthTag(bytes.subarray(bytes.length - TAG_BYTES));
+  return Buffer.concat([
+    decipher.update(bytes.subarray(IV_BYTES, bytes.length - TAG_BYTES)),
+    decipher.final(),
+  ]);
+}
+
+function parse(envelope: string): { keyId: string; dataKey: string; data: string } {
+  const [keyId, dataKey, data] = envelope.slice(PREFIX.length).split(":");
+  if (!keyId || !dataKey || !data) {
+    throw new EncryptionError("Malformed encrypted value");
+  }
+  return { keyId, dataKey, data };
+}
+
+function keyFor(keyId: string): Buffer {
+  const key = getKeyring().keys.get(keyId);
+  if (!key) {
+    throw new EncryptionError(`No encryption key with ID "${keyId}"`);
+  }
+  return key;
+}
+
+/** The ID of the key new values are encrypted with, or null when off. */
+export function currentKeyId(): string | null {
+  return getKeyring().currentId;
+}
+
+export function isEncrypted(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(PREFIX);
+}
+
+/** Encrypts any JSON value with the current key. */
+export function encryptValue(value: unknown): string {
+  const keyId = currentKeyId();
+  if (!keyId) {
+    throw new EncryptionError("Encryption is not enabled");
+  }
+
+  const dataKey = randomBytes(32);
+  return [
+    PREFIX + keyId,
+    seal(keyFor(keyId), dataKey),
+    seal(dataKey, Buffer.from(JSON.stringify(value))),
+  ].join(":");
+}
+
+/** Decrypts a value written by encryptValue. Anything else is returned as is. */
+export function decryptValue<T = unknown>(value: unknown): T {
+  if (!isEncrypted(value)) {
+    return value as T;
+  }
+
+  const { keyId, dataKey, data } = parse(value);
+  try {
+    const key = open(keyFor(keyId), dataKey);
+    return JSON.parse(open(key, data).toString("utf8")) as T;
+  } catch (error) {
+    if (error instanceof EncryptionError) {
+      throw error;
+    }
+    throw new EncryptionError(`Could not decrypt value with key "${keyId}"`);
+  }
+}
+
+/**
+ * Decrypts every encrypted column of a row read from the database, such as
+ * `SELECT * FROM messages`, leaving the other columns untouched.
+ */
+export function decryptRow<T extends Record<string, unknown>>(row: T): T {
+  const decrypted: Record<string, unknown> = {};
+  for (const [column, value] of Object.entries(row)) {
+    decrypted[column] = decryptValue(value);
+  }
+  return decrypted as T;
+}
+
+/**
+ * Re-encrypts an envelope's data key with the current key. The data itself
+ * is left as it was.
+ */
+export function rewrapValue(value: unknown): unknown {
+  const keyId = currentKeyId();
+  if (!keyId || !isEncrypted(value)) {
+    return value;
+  }
+
+  const envelope = parse(value);
+  if (envelope.keyId === keyId) {
+    return value;
+  }
+  const dataKey = open(keyFor(envelope.keyId), envelope.dataKey);
+  return [PREFIX + keyId, seal(keyFor(keyId), dataKey), envelope.data].join(":");
+}
+
+/** Row fields each storage call writes to an encrypted column. */
+const ENCRYPTED_FIELDS: Record<string, string[]> = {
+  upsertMessage: ["text", "content", "systemPrompt"],
+  upsertPart: ["text", "content"],
+  upsertStreamingParts: ["text", "content"],
+  recordToolStart: ["args"],
+  recordToolEnd: ["result"],
+  recordToolExecution: ["args", "result"],
+  recordFileChanges: ["diff"],
+  recordPermissionRequest: ["title", "patterns"],
+};
+
+function encryptFields<T extends object>(row: T, fields: string[]): T {
+  const encrypted: Record<string, unknown> = {
+    ...(row as Record<string, unknown>),
+  };
+  for (const field of fields) {
+    const value = encrypted[field];
+    if (value !== undefined && value !== null) {
+      encrypted[field] = encryptValue(value);
+    }
+  }
+  encrypted.encryptionKeyId = currentKeyId();
+  return encrypted as T;
+}
+
+/**
+ * Encrypts the content fields of the rows passed to a storage call, and tags
+ * them with the key ID. Calls without content, or with encryption off, are
+ * returned unchanged.
+ */
+export function encryptArgs(operation: string, args: unknown[]): unknown[] {
+  const fields = ENCRYPTED_FIELDS[operation];
+  if (!fields || !currentKeyId()) {
+    return args;
+  }
+
+  return args.map((arg) => {
+    if (Array.isArray(arg)) {
+      return arg.map((row: object) => encryptFields(row, fields));
+    }
+    return typeof arg === "object" && arg !== null
+      ? encryptFields(arg, fields)
+      : arg;
+  });
+}
+
+/** Encrypts one row bound for `operation`, as encryptArgs does. */
+export function encryptRow<T extends object>(operation: string, row: T): T {
+  return encryptArgs(operation, [row])[0] as T;
+}
+
+/**
+ * Moves up to `limit` rows per table that were encrypted with an older key
+ * onto the current one. Returns the number of rows rewrapped.
+ */
+export async function rewrapEncryptedRows(
+  storage: Storage,
+  limit: number
+): Promise<number> {
+  const keyId = currentKeyId();
+  if (!keyId) {
+    return 0;
+  }
+
+  let rewrapped = 0;
+  for (const table of Object.keys(ENCRYPTED_COLUMNS) as EncryptedTable[]) {
+    const rows = await storage.listStaleEncryptedRows(table, keyId, limit);
+    for (const row of rows) {
+      const values: Record<string, unknown> = {};
+      for (const [column, value] of Object.entries(row.values)) {
+        values[column] = rewrapValue(value);
+      }
+      await storage.updateEncryptedRow(table, row.id, keyId, values);
+      rewrapped++;
+    }
+  }
+  return rewrapped;
+}
@@ -0,0 +1,106 @@
+/**
+ * How a failed write should be handled:
+ * - transient: the database is unreachable or overloaded; back off and retry
+ * - permanent: the statement can never succeed as written; drop it
+ * - data: this particular row was rejected; quarantine it for inspection
+ */
+export type ErrorCategory = "transient" | "permanent" | "data";
+
+export class QueryTimeoutError extends Error {
+  constructor(readonly timeoutMs: number) {
+    super(`Query timeout after ${timeoutMs}ms`);
+    this.name = "QueryTimeoutError";
+  }
+}
+
+/** Socket and postgres.js client codes that mean the connection was lost. */
+const TRANSIENT_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ECONNABORTED",
+  "ENOTFOUND",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "EAI_AGAIN",
+  "CONNECTION_CLOSED",
+  "CONNECTION_DESTROYED",
+  "CONNECTION_ENDED",
+  "CONNECT_TIMEOUT",
+]);
+
+/**
+ * SQLSTATE classes, keyed by their first two characters.
+ * https://www.postgresql.org/docs/current/errcodes-appendix.html
+ */
+const SQLSTATE_CLASSES: Record<string, ErrorCategory> = {
+  "08": "transient", // connection exception
+  "40": "transient", // transaction rollback (serialization failure, deadlock)
+  "53": "transient", // insufficient resources
+  "57": "transient", // operator intervention (shutdown, query canceled)
+  "58": "transient", // system error (I/O)
+  "21": "data", // cardinality violation
+  "22": "data", // data exception (bad JSON, out of range, invalid text)
+  "23": "data", // integrity constraint violation (FK, unique, check)
+};
+
+/** Individual SQLSTATEs whose class would put them in the wrong category. */
+const SQLSTATE_CODES: Record<string, ErrorCategory> = {
+  "55P03": "transient", // lock not available
+};
+
+/** bun:sqlite result codes, matched on their prefix. */
+const SQLITE_CODES: Array<[string, ErrorCategory]> = [
+  ["SQLITE_BUSY", "transient"],
+  ["SQLITE_LOCKED", "transient"],
+  ["SQLITE_IOERR", "transient"],
+  ["SQLITE_FULL", "transient"],
+  ["SQLITE_CONSTRAINT", "data"],
+  ["SQLITE_MISMATCH", "data"],
+  ["SQLITE_TOOBIG", "data"],
+];
+
+export function errorCode(error: unknown): string | undefined {
+  if (typeof error !== "object" || error === null) {
+    return undefined;
+  }
+  const code = (error as { code?: unknown }).code;
+  return typeof code === "string" ? code : undefined;
+}
+
+/**
+ * Maps an error from either storage backend onto an ErrorCategory using its
+ * SQLSTATE or socket code. Anything unrecognized is treated as permanent so a
+ * bug in a statement can't stall the write queue behind retries.
+ */
+export function classifyError(error: unknown): ErrorCategory {
+  if (error instanceof QueryTimeoutError) {
+    return "transient";
+  }
+
+  // Connecting to a host with several addresses reports each failure.
+  if (error instanceof AggregateError && error.errors.length > 0) {
+    return classifyError(error.errors[0]);
+  }
+
+  const code = errorCode(error);
+  if (!code) {
+    return "permanent";
+  }
+
+  if (TRANSIENT_CODES.has(code)) {
+    return "transient";
+  }
+
+  if (code.startsWith("SQLITE_")) {
+    const match = SQLITE_CODES.find(([prefix]) => code.startsWith(prefix));
+    return match ? match[1] : "permanent";
+  }
+
+  if (/^[0-9A-Z]{5}$/.test(code)) {
+    return SQLSTATE_CODES[code] ?? SQLSTATE_CLASSES[code.slice(0, 2)] ?? "permanent";
+  }
+
+  return "permanent";
+}
@@ -0,0 +1,114 @@
+import { errorCode } from "./errors";
+import {
+  readQuarantine,
+  rewriteQuarantine,
+  type QuarantineEntry,
+} from "./quarantine";
+import {
+  NON_REPLAYABLE_MEMBERS,
+  type Storage,
+  type WriteOperation,
+} from "./storage/types";
+
+export interface ReprocessResult {
+  attempted: number;
+  succeeded: number;
+  failed: number;
+}
+
+/** Storage members a dead-lettered write must never be replayed through. */
+const NOT_REPLAYABLE = new Set<string>(NON_REPLAYABLE_MEMBERS);
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Payloads round-trip through JSON, which turns the Date fields of a row
+ * (`startedAt`, `completedAt`) into strings. Turns them back.
+ */
+function reviveDates(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(reviveDates);
+  }
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+
+  const revived: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    revived[key] =
+      key.endsWith("At") && typeof field === "string" && ISO_TIMESTAMP.test(field)
+        ? new Date(field)
+        : field;
+  }
+  return revived;
+}
+
+async function replay(
+  storage: Storage,
+  operation: string,
+  args: unknown[]
+): Promise<void> {
+  const method = storage[operation as WriteOperation];
+  if (NOT_REPLAYABLE.has(operation) || typeof method !== "function") {
+    throw new Error(`Unknown write operation "${operation}"`);
+  }
+  await (method as (...args: unknown[]) => Promise<void>).apply(
+    storage,
+    args.map(reviveDates)
+  );
+}
+
+/**
+ * Retries dead-lettered writes, oldest first: up to `limit` rows from the
+ * failed_writes table, then every described write in the quarantine file.
+ * Writes that now succeed are resolved; the rest record another attempt and
+ * stay for the next run.
+ */
+export async function reprocessFailedWrites(
+  storage: Storage,
+  limit: number
+): Promise<ReprocessResult> {
+  const result: ReprocessResult = { attempted: 0, succeeded: 0, failed: 0 };
+
+  for (const failure of await storage.listFailedWrites(limit)) {
+    result.attempted++;
+    try {
+      await replay(storage, failure.operation, failure.payload);
+      await storage.resolveFailedWrite(failure.id);
+      result.succeeded++;
+    } catch (error) {
+      result.failed++;
+      await storage.recordFailedWriteAttempt(
+        failure.id,
+        errorCode(error) ?? null,
+        String(error)
+      );
+    }
+  }
+
+  const entries = readQuarantine();
+  const kept: QuarantineEntry[] = [];
+
+  for (const entry of entries) {
+    // Entries spooled as raw statements have nothing to replay through storage.
+    if (!entry.operation || !entry.args) {
+      kept.push(entry);
+      continue;
+    }
+
+    result.attempted++;
+    try {
+      await replay(storage, entry.operation, entry.args);
+      result.succeeded++;
+    } catch (error) {
+      result.failed++;
+      kept.push({ ...entry, code: errorCode(error) ?? null, error: String(error) });
+    }
+  }
+
+  if (kept.length !== entries.length) {
+    rewriteQuarantine(kept, entries.length);
+  }
+
+  return result;
+}
@@ -0,0 +1,201 @@
+import { isAbsolute, relative } from "node:path";
+
+export type FileOperation = "create" | "update" | "delete" | "move";
+
+/** One file written by a tool call. Line counts are null when unknown. */
+export interface FileChange {
+  filePath: string;
+  operation: FileOperation;
+  linesAdded: number | null;
+  linesRemoved: number | null;
+  diff: string | null;
+}
+
+const EDIT_TOOLS = new Set(["edit", "multiedit"]);
+const WRITE_TOOLS = new Set(["write"]);
+const PATCH_TOOLS = new Set(["patch", "apply_patch"]);
+
+export function isFileChangeTool(tool: string): boolean {
+  return EDIT_TOOLS.has(tool) || WRITE_TOOLS.has(tool) || PATCH_TOOLS.has(tool);
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === "string" && value ? value : null;
+}
+
+function asCount(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+/** Counts the added and removed lines in the hunks of a unified diff. */
+export function countDiffLines(diff: string): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  let inHunk = false;
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("@@")) {
+      inHunk = true;
+    } else if (line.startsWith("diff ") || line.startsWith("Index: ")) {
+      inHunk = false;
+    } else if (inHunk && line.startsWith("+")) {
+      added++;
+    } else if (inHunk && line.startsWith("-")) {
+      removed++;
+    }
+  }
+  return { added, removed };
+}
+
+function countLines(text: string): number {
+  if (!text) {
+    return 0;
+  }
+  const lines = text.split("\n").length;
+  return text.endsWith("\n") ? lines - 1 : lines;
+}
+
+/** Stores paths inside the session's directory relative to it. */
+function normalizePath(filePath: string, directory: string | null): string {
+  if (directory && isAbsolute(filePath)) {
+    const inside = relative(directory, filePath);
+    if (inside && !inside.startsWith("..") && !isAbsolute(inside)) {
+      return inside;
+    }
+  }
+  return filePath;
+}
+
+function fromDiff(
+  filePath: string,
+  operation: FileOperation,
+  diff: string | null,
+  metadata: Record<string, unknown>
+): FileChange {
+  if (diff) {
+    const { added, removed } = countDiffLines(diff);
+    return { filePath, operation, linesAdded: added, linesRemoved: removed, diff };
+  }
+  const filediff = (metadata.filediff ?? {}) as Record<string, unknown>;
+  return {
+    filePath,
+    operation,
+    linesAdded: asCount(filediff.additions),
+    linesRemoved: asCount(filediff.deletions),
+    diff: null,
+  };
+}
+
+const PATCH_HEADER = /^\*\*\* (Add|Update|Delete) File: (.+)$/;
+const PATCH_MOVE = /^\*\*\* Move to: (.+)$/;
+
+/**
+ * Splits a `*** Begin Patch` envelope into one change per file, keeping each
+ * file's hunks as its diff.
+ */
+export function parsePatch(patchText: string): FileChange[] {
+  const changes: FileChange[] = [];
+  let current: { change: FileChange; lines: string[] } | null = null;
+
+  const finish = () => {
+    if (!current) {
+      return;
+    }
+    const { change, lines } = current;
+    if (change.operation !== "delete") {
+      change.linesAdded = lines.filter((line) => line.startsWith("+")).length;
+      change.linesRemoved = lines.filter((line) => line.startsWith("-")).length;
+      change.diff = lines.length > 0 ? lines.join("\n") : null;
+    }
+    changes.push(change);
+    current = null;
+  };
+
+  for (const line of patchText.split("\n")) {
+    const header = PATCH_HEADER.exec(line);
+    if (header) {
+      finish();
+      const kind = header[1];
+      current = {
+        change: {
+          filePath: header[2]!.trim(),
+          operation:
+            kind === "Add" ? "create" : kind === "Delete" ? "delete" : "update",
+          linesAdded: kind === "Delete" ? 0 : null,
+          linesRemoved: null,
+          diff: null,
+        },
+        lines: [],
+      };
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+    const move = PATCH_MOVE.exec(line);
+    if (move) {
+      current.change.filePath = move[1]!.trim();
+      current.change.operation = "move";
+    } else if (line.startsWith("*** End")) {
+      finish();
+    } else {
+      current.lines.push(line);
+    }
+  }
+  finish();
+  return changes;
+}
+
+/**
+ * The files a finished edit, write or patch tool call changed, read from its
+ * arguments and metadata. Other tools change nothing.
+ */
+export function extractFileChanges(
+  tool: string,
+  args: Record<string, unknown>,
+  metadata: Record<string, unknown>,
+  directory: string | null
+): FileChange[] {
+  let changes: FileChange[] = [];
+
+  if (EDIT_TOOLS.has(tool)) {
+    const filePath = asString(args.filePath) ?? asString(metadata.filepath);
+    if (filePath) {
+      const results = Array.isArray(metadata.results) ? metadata.results : [];
+      const diff =
+        asString(metadata.diff) ??
+        (results
+          .map((result) => asString((result as Record<string, unknown>)?.diff))
+          .filter((diff) => diff !== null)
+          .join("\n") ||
+          null);
+      changes = [fromDiff(filePath, "update", diff, metadata)];
+    }
+  } else if (WRITE_TOOLS.has(tool)) {
+    const filePath = asString(args.filePath) ?? asString(metadata.filepath);
+    if (filePath) {
+      const diff = asString(metadata.diff);
+      const content = typeof args.content === "string" ? args.content : null;
+      if (diff || metadata.exists !== false) {
+        changes = [fromDiff(filePath, "update", diff, metadata)];
+      } else {
+        changes = [
+          {
+            filePath,
+            operation: "create",
+            linesAdded: content === null ? null : countLines(content),
+            linesRemoved: 0,
+            diff: null,
+          },
+        ];
+      }
+    }
+  } else if (PATCH_TOOLS.has(tool)) {
+    const patchText = asString(args.patchText);
+    changes = patchText ? parsePatch(patchText) : [];
+  }
+
+  return changes.map((change) => ({
+    ...change,
+    filePath: normalizePath(change.filePath, directory),
+  }));
+}
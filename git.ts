@@ -0,0 +1,70 @@
+import { execFile } from "node:child_process";
+
+/** How long a single git command may take before it is given up on. */
+const GIT_TIMEOUT_MS = 2000;
+
+/** The state of a working tree at one moment. */
+export interface GitContext {
+  /** Null when HEAD is detached. */
+  branch: string | null;
+  /** Null in a repository with no commits yet. */
+  commitSha: string | null;
+  remoteUrl: string | null;
+  dirtyFiles: number;
+}
+
+function git(cwd: string, args: string[]): Promise<string | null> {
+  return new Promise((resolve) => {
+    execFile(
+      "git",
+      args,
+      { cwd, timeout: GIT_TIMEOUT_MS, windowsHide: true },
+      (error, stdout) => resolve(error ? null : stdout.trim())
+    );
+  });
+}
+
+/** Drops any user name or token embedded in an HTTP(S) remote URL. */
+export function stripCredentials(url: string): string {
+  try {
+    const parsed = new URL(url);
+    if (
+      (parsed.protocol === "http:" || parsed.protocol === "https:") &&
+      (parsed.username || parsed.password)
+    ) {
+      parsed.username = "";
+      parsed.password = "";
+      return parsed.toString();
+    }
+  } catch {
+    // scp-style remotes such as git@host:org/repo aren't URLs.
+  }
+  return url;
+}
+
+/**
+ * Reads the branch, HEAD commit, origin remote and number of changed files of
+ * the repository containing `directory`. Returns null outside a repository or
+ * when git isn't installed.
+ */
+export async function readGitContext(
+  directory: string
+): Promise<GitContext | null> {
+  if ((await git(directory, ["rev-parse", "--is-inside-work-tree"])) !== "true") {
+    return null;
+  }
+
+  const [branch, commitSha, remoteUrl, status] = await Promise.all([
+    git(directory, ["symbolic-ref", "--quiet", "--short", "HEAD"]),
+    git(directory, ["rev-parse", "--verify", "--quiet", "HEAD"]),
+    git(directory, ["config", "--get", "remote.origin.url"]),
+    git(directory, ["status", "--porcelain"]),
+  ]);
+
+  return {
+    branch: branch || null,
+    commitSha: commitSha || null,
+    remoteUrl: remoteUrl ? stripCredentials(remoteUrl) : null,
+    dirtyFiles: status ? status.split("\n").length : 0,
+  };
+}
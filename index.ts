@@ -1,12 +1,53 @@
-import type { Plugin, PluginInput } from "@opencode-ai/plugin";
-import { sql, ensureConnection, fireAndForget, safeQuery } from "./db";
-import type postgres from "postgres";
+import type { Hooks, Plugin, PluginInput } from "@opencode-ai/plugin";
+import type { Permission } from "@opencode-ai/sdk";
+import {
+  enqueueWrite,
+  bufferWrite,
+  drainWrites,
+  getWriteQueueStats,
+  setSpoolEnabled,
+} from "./db";
+import { getSpoolStats } from "./spool";
+import { getQuarantineStats, setFailedWriteSink } from "./quarantine";
+import { reprocessFailedWrites } from "./failed-writes";
+import { setShutdownHandler } from "./shutdown";
+import { getAttribution } from "./attribution";
+import { readGitContext } from "./git";
+import { extractFileChanges, isFileChangeTool } from "./file-changes";
+import {
+  addStepToolCall,
+  cleanupSteps,
+  finishStep,
+  forgetSteps,
+  startStep,
+} from "./steps";
+import { rowsTouched, startRetention, stopRetention } from "./retention";
+import { redact, redactArgs, redactRow } from "./redaction";
+import {
+  currentKeyId,
+  encryptArgs,
+  encryptRow,
+  rewrapEncryptedRows,
+} from "./encryption";
+import {
+  isCaptured,
+  isSessionCaptured,
+  limitArgs,
+  limitPayload,
+  limitRow,
+} from "./capture";
+import { createStorage, type Storage, type WriteOperation } from "./storage";
+import {
+  describeConfig,
+  getConfig,
+  loadConfig,
+  type ResolvedConfig,
+} from "./config";
+
+export type { DatabasePluginConfigFile } from "./config";
 
 type OpencodeClient = PluginInput["client"];
 
-const STALE_ENTRY_TIMEOUT_MS = 15 * 60 * 1000;
-const CLEANUP_INTERVAL_MS = 60 * 1000;
-
 const pendingExecutions = new Map<
   string,
   {
@@ -19,7 +60,8 @@ const pendingExecutions = new Map<
   }
 >();
 
-const callIdToPartId = new Map<string, string>();
+/** The tool part, and its message, of each tool call. */
+const callIdToPart = new Map<string, { partId: string; messageId: string }>();
 
 const pendingUserMessages = new Map<
   string,
@@ -30,46 +72,62 @@ const pendingUserMessages = new Map<
   }
 >();
 
-const tokensCountedBySession = new Map<string, Map<string, number>>();
 const callIdTimestamps = new Map<string, number>();
 
+/**
+ * Whether each session is logged at all, decided once when it is created.
+ * Nothing from a session that isn't is queued or written.
+ */
+const loggedSessions = new Map<string, boolean>();
+/** Working directories of sessions, for git snapshots. */
+const sessionDirectories = new Map<string, string>();
+/** The parent of each subagent session, so a deleted tree can be forgotten. */
+const sessionParents = new Map<string, string>();
+/** Message roles, for the capture policy. */
+const messageRoles = new Map<string, { role: string; timestamp: number }>();
+
 function cleanupStaleMaps(): void {
   const now = Date.now();
+  const { staleEntryTimeoutMs } = getConfig().tracking;
 
   for (const [key, value] of pendingExecutions) {
-    if (now - value.startedAt.getTime() > STALE_ENTRY_TIMEOUT_MS) {
+    if (now - value.startedAt.getTime() > staleEntryTimeoutMs) {
       pendingExecutions.delete(key);
     }
   }
 
   for (const [key, value] of pendingUserMessages) {
-    if (now - value.timestamp > STALE_ENTRY_TIMEOUT_MS) {
+    if (now - value.timestamp > staleEntryTimeoutMs) {
       pendingUserMessages.delete(key);
     }
   }
 
-  for (const [key, timestamp] of callIdTimestamps) {
-    if (now - timestamp > STALE_ENTRY_TIMEOUT_MS) {
-      callIdToPartId.delete(key);
-      callIdTimestamps.delete(key);
+  for (const [key, value] of messageRoles) {
+    if (now - value.timestamp > staleEntryTimeoutMs) {
+      messageRoles.delete(key);
     }
   }
 
-  for (const [sessionId, messageTimestamps] of tokensCountedBySession) {
-    for (const [messageId, timestamp] of messageTimestamps) {
-      if (now - timestamp > STALE_ENTRY_TIMEOUT_MS) {
-        messageTimestamps.delete(messageId);
-      }
-    }
-    if (messageTimestamps.size === 0) {
-      tokensCountedBySession.delete(sessionId);
+  for (const [key, timestamp] of callIdTimestamps) {
+    if (now - timestamp > staleEntryTimeoutMs) {
+      callIdToPart.delete(key);
+      callIdTimestamps.delete(key);
     }
   }
+
+  cleanupSteps(staleEntryTimeoutMs, now);
 }
 
-const cleanupInterval = setInterval(cleanupStaleMaps, CLEANUP_INTERVAL_MS);
-if (cleanupInterval.unref) {
-  cleanupInterval.unref();
+let cleanupInterval: ReturnType<typeof setInterval> | undefined;
+
+function startCleanup(intervalMs: number): void {
+  if (cleanupInterval) {
+    clearInterval(cleanupInterval);
+  }
+  cleanupInterval = setInterval(cleanupStaleMaps, intervalMs);
+  if (cleanupInterval.unref) {
+    cleanupInterval.unref();
+  }
 }
 
 export function generateCorrelationId(): string {
@@ -82,6 +140,7 @@ export interface SessionInfo {
   parentID?: string;
   projectID?: string;
   directory?: string;
+  version?: string;
   share?: { url?: string };
 }
 
@@ -95,6 +154,7 @@ export interface MessageInfo {
   parts?: Array<{ type: string; text?: string }>;
   summary?: { title?: string };
   system?: string;
+  cost?: number;
   tokens?: {
     input?: number;
     output?: number;
@@ -123,6 +183,7 @@ export interface PartInfo {
       end?: number;
     };
   };
+  reason?: string;
   cost?: number;
   tokens?: {
     input?: number;
@@ -132,6 +193,42 @@ export interface PartInfo {
   };
 }
 
+/** A session and every subagent session below it that has been seen. */
+function sessionTree(sessionId: string): string[] {
+  const tree = [sessionId];
+  for (let i = 0; i < tree.length; i++) {
+    for (const [child, parent] of sessionParents) {
+      if (parent === tree[i] && !tree.includes(child)) {
+        tree.push(child);
+      }
+    }
+  }
+  return tree;
+}
+
+/**
+ * Copies a part for storage, leaving out tool input or output that isn't
+ * captured. Sizes are limited later, once secrets are redacted.
+ */
+function capturedPart(
+  part: PartInfo,
+  include: { input: boolean; output: boolean; metadata: boolean }
+): Record<string, unknown> {
+  const copy: Record<string, unknown> = { ...part };
+  if (!part.state) {
+    return copy;
+  }
+
+  const { input, output, metadata, ...state } = part.state;
+  copy.state = {
+    ...state,
+    ...(include.input && { input }),
+    ...(include.output && { output }),
+    ...(include.metadata && { metadata }),
+  };
+  return copy;
+}
+
 function logError(
   client: OpencodeClient,
   message: string,
@@ -149,8 +246,44 @@ function logError(
   ).catch(() => {});
 }
 
-export const DatabasePlugin: Plugin = async ({ client }) => {
-  const connected = await ensureConnection();
+export const DatabasePlugin = (async ({
+  client,
+  directory,
+  project,
+}: PluginInput): Promise<Hooks> => {
+  let resolved: ResolvedConfig;
+  try {
+    resolved = loadConfig();
+  } catch (error) {
+    await client.app.log({
+      body: {
+        service: "database",
+        level: "error",
+        message: "Plugin disabled - invalid configuration",
+        extra: { error: String(error) },
+      },
+    });
+    return {};
+  }
+
+  const { config } = resolved;
+  await client.app.log({
+    body: {
+      service: "database",
+      level: "info",
+      message: "Loaded configuration",
+      extra: {
+        sources: resolved.sources,
+        config: describeConfig(config),
+      },
+    },
+  });
+
+  startCleanup(config.tracking.cleanupIntervalMs);
+
+  const storage = await createStorage(config.databaseUrl);
+  setSpoolEnabled(storage.backend === "postgres");
+  const connected = await storage.connect();
 
   if (!connected) {
     await client.app.log({
@@ -163,6 +296,296 @@ export const DatabasePlugin: Plugin = async ({ client }) => {
     return {};
   }
 
+  if (config.autoMigrate) {
+    try {
+      const result = await storage.migrate();
+      if (result.applied.length > 0) {
+        await client.app.log({
+          body: {
+            service: "database",
+            level: "info",
+            message: `Migrated database schema from version ${result.from} to ${result.to}`,
+            extra: {
+              applied: result.applied.map((m) => `${m.version}_${m.name}`),
+            },
+          },
+        });
+      }
+    } catch (error) {
+      await client.app.log({
+        body: {
+          service: "database",
+          level: "error",
+          message: "Plugin disabled - schema migration failed",
+          extra: { error: String(error) },
+        },
+      });
+      return {};
+    }
+  }
+
+  const spool = getSpoolStats();
+  if (spool.entries > 0) {
+    await client.app.log({
+      body: {
+        service: "database",
+        level: "info",
+        message: `Replaying ${spool.entries} spooled writes`,
+        extra: { path: spool.path, bytes: spool.bytes },
+      },
+    });
+  }
+
+  setFailedWriteSink((failure) => storage.recordFailedWrite(failure));
+
+  if (config.failedWrites.reprocessOnStartup) {
+    try {
+      const result = await reprocessFailedWrites(
+        storage,
+        config.failedWrites.reprocessLimit
+      );
+      if (result.attempted > 0) {
+        await client.app.log({
+          body: {
+            service: "database",
+            level: result.failed > 0 ? "warn" : "info",
+            message: `Reprocessed ${result.succeeded} of ${result.attempted} failed writes`,
+            extra: { ...result },
+          },
+        });
+      }
+    } catch (error) {
+      logError(client, "Error reprocessing failed writes", {
+        error: String(error),
+      });
+    }
+  }
+
+  if (config.encryption.enabled) {
+    try {
+      const rewrapped = await rewrapEncryptedRows(
+        storage,
+        config.encryption.rewrapLimit
+      );
+      if (rewrapped > 0) {
+        await client.app.log({
+          body: {
+            service: "database",
+            level: "info",
+            message: `Rewrapped ${rewrapped} encrypted rows with key "${config.encryption.keyId}"`,
+            extra: { rewrapped },
+          },
+        });
+      }
+    } catch (error) {
+      logError(client, "Error rewrapping encrypted rows", {
+        error: String(error),
+      });
+    }
+  }
+
+  if (config.pricing.recomputeOnStartup) {
+    try {
+      const repriced = await storage.recomputeCosts();
+      await client.app.log({
+        body: {
+          service: "database",
+          level: "info",
+          message: `Re-priced ${repriced} messages`,
+          extra: { repriced },
+        },
+      });
+    } catch (error) {
+      logError(client, "Error recomputing costs", {
+        error: String(error),
+      });
+    }
+  }
+
+  /**
+   * Whether a session is logged. Sessions created before the plugin loaded
+   * are judged by the project OpenCode was started in.
+   */
+  const isLogged = (sessionId: string): boolean => {
+    let logged = loggedSessions.get(sessionId);
+    if (logged === undefined) {
+      logged = isSessionCaptured({ directory, projectId: project?.id ?? null });
+      loggedSessions.set(sessionId, logged);
+    }
+    return logged;
+  };
+
+  /**
+   * Queues one storage call for a session, described by name so it can be
+   * dead-lettered and replayed later if the database rejects it. Calls for
+   * sessions that aren't logged are dropped. Secrets are
+   * redacted from the arguments first, so they never reach the spool, the
+   * dead-letter table or the database. Oversized payloads are then limited,
+   * and content is encrypted when encryption is on.
+   */
+  const write = <K extends WriteOperation>(
+    eventType: string,
+    sessionId: string,
+    operation: K,
+    ...rawArgs: Parameters<Storage[K]>
+  ): void => {
+    if (!isLogged(sessionId)) {
+      return;
+    }
+    const args = encryptArgs(
+      operation,
+      limitArgs(operation, redactArgs(rawArgs))
+    );
+    enqueueWrite(
+      sessionId,
+      () =>
+        (storage[operation] as (...args: unknown[]) => Promise<void>).apply(
+          storage,
+          args
+        ),
+      (error) =>
+        logError(client, `Error in ${eventType}`, {
+          operation,
+          error: String(error),
+        }),
+      { eventType, operation, args }
+    );
+  };
+
+  /**
+   * Records the git state of a session's directory in the background. Nothing
+   * is written when the directory isn't inside a repository.
+   */
+  const snapshotGit = (
+    eventType: string,
+    sessionId: string,
+    messageId: string | null
+  ): void => {
+    if (!config.capture.git || !isLogged(sessionId)) {
+      return;
+    }
+    void readGitContext(sessionDirectories.get(sessionId) ?? directory).then(
+      (git) => {
+        if (git) {
+          write(eventType, sessionId, "recordGitSnapshot", {
+            sessionId,
+            messageId,
+            eventType,
+            ...git,
+          });
+        }
+      }
+    );
+  };
+
+  /**
+   * Records a tool call as failed and stops waiting for it to complete. Failed
+   * calls never reach tool.execute.after; their parts say how they ended.
+   */
+  const failToolCall = (
+    eventType: string,
+    sessionId: string,
+    callId: string,
+    toolName: string,
+    error: string,
+    completedAt: Date
+  ): void => {
+    const pending = pendingExecutions.get(callId);
+    const part = callIdToPart.get(callId);
+    pendingExecutions.delete(callId);
+    write(eventType, sessionId, "recordToolFailure", {
+      correlationId: pending?.correlationId ?? generateCorrelationId(),
+      sessionId,
+      callId,
+      messageId: part?.messageId ?? null,
+      partId: pending?.partId ?? part?.partId ?? null,
+      toolName,
+      error,
+      completedAt,
+    });
+  };
+
+  const quarantine = getQuarantineStats();
+  if (quarantine.entries > 0) {
+    await client.app.log({
+      body: {
+        service: "database",
+        level: "warn",
+        message: `${quarantine.entries} rejected writes are quarantined`,
+        extra: { path: quarantine.path, bytes: quarantine.bytes },
+      },
+    });
+  }
+
+  startRetention(
+    storage,
+    config.retention,
+    config.retention.intervalMs,
+    (result) => {
+      const touched = rowsTouched(result);
+      if (touched > 0) {
+        void client.app
+          .log({
+            body: {
+              service: "database",
+              level: "info",
+              message: `Retention purge touched ${touched} rows`,
+              extra: { ...result },
+            },
+          })
+          .catch(() => {});
+      }
+    },
+    (error) =>
+      logError(client, "Error running retention purge", {
+        error: String(error),
+      })
+  );
+
+  setShutdownHandler(async () => {
+    stopRetention();
+    const { drainTimeoutMs } = config.shutdown;
+    const abandoned = await drainWrites(drainTimeoutMs);
+    const queue = getWriteQueueStats();
+    const spooled = getSpoolStats();
+    await storage.close();
+
+    if (spooled.entries > 0 || spooled.dropped > 0) {
+      await client.app
+        .log({
+          body: {
+            service: "database",
+            level: "warn",
+            message: `${spooled.entries} writes left in the spool, ${spooled.dropped} dropped because it was full`,
+            extra: { path: spooled.path, bytes: spooled.bytes },
+          },
+        })
+        .catch(() => {});
+    }
+
+    if (abandoned > 0) {
+      // The OpenCode server may already be gone, so don't rely on its log.
+      console.error(
+        `[database] Abandoned ${abandoned} writes still pending after ${drainTimeoutMs}ms`
+      );
+      await client.app
+        .log({
+          body: {
+            service: "database",
+            level: "warn",
+            message: `Abandoned ${abandoned} writes at shutdown`,
+            extra: {
+              abandoned,
+              drainTimeoutMs,
+              sessions: queue.sessions,
+              peak: queue.peak,
+            },
+          },
+        })
+        .catch(() => {});
+    }
+  });
+
   return {
     event: async ({ event }) => {
       const props = event.properties as Record<string, unknown>;
@@ -171,80 +594,79 @@ export const DatabasePlugin: Plugin = async ({ client }) => {
         switch (event.type) {
           case "session.created": {
             const info = props.info as SessionInfo;
-
-            fireAndForget(
-              () => sql`
-              INSERT INTO sessions (id, title, parent_id, project_id, directory, status, created_at)
-              VALUES (
-                ${info.id},
-                ${info.title || null},
-                ${info.parentID || null},
-                ${info.projectID || null},
-                ${info.directory || null},
-                'created',
-                NOW()
-              )
-              ON CONFLICT (id) DO UPDATE SET
-                title = COALESCE(${info.title || null}, sessions.title),
-                parent_id = COALESCE(${info.parentID || null}, sessions.parent_id),
-                project_id = COALESCE(${info.projectID || null}, sessions.project_id),
-                directory = COALESCE(${info.directory || null}, sessions.directory)
-            `,
-              (error) =>
-                logError(client, "Error in session.created", {
-                  error: String(error),
+            // Child sessions are left out along with their parent.
+            loggedSessions.set(
+              info.id,
+              (!info.parentID || isLogged(info.parentID)) &&
+                isSessionCaptured({
+                  directory: info.directory || null,
+                  projectId: info.projectID || null,
                 })
             );
+
+            write(event.type, info.id, "upsertSession", {
+              id: info.id,
+              title: info.title || null,
+              parentId: info.parentID || null,
+              projectId: info.projectID || null,
+              directory: info.directory || null,
+              attribution: getAttribution(info.version || null),
+            });
+            if (info.directory) {
+              sessionDirectories.set(info.id, info.directory);
+            }
+            if (info.parentID) {
+              sessionParents.set(info.id, info.parentID);
+            }
+            snapshotGit(event.type, info.id, null);
             break;
           }
 
           case "session.updated": {
             const info = props.info as SessionInfo;
-            fireAndForget(
-              () => sql`
-              UPDATE sessions
-              SET title = COALESCE(${info.title || null}, title),
-                  share_url = COALESCE(${info.share?.url || null}, share_url)
-              WHERE id = ${info.id}
-            `,
-              (error) =>
-                logError(client, "Error in session.updated", {
-                  error: String(error),
-                })
-            );
+            write(event.type, info.id, "updateSession", {
+              id: info.id,
+              title: info.title || null,
+              shareUrl: info.share?.url || null,
+            });
             break;
           }
 
           case "session.deleted": {
             const info = props.info as SessionInfo;
-            fireAndForget(
-              () => sql`
-              UPDATE sessions
-              SET deleted_at = NOW(), status = 'deleted'
-              WHERE id = ${info.id}
-            `,
-              (error) =>
-                logError(client, "Error in session.deleted", {
-                  error: String(error),
-                })
-            );
-            tokensCountedBySession.delete(info.id);
+            if (config.deletion.mode === "hard") {
+              write(event.type, info.id, "hardDeleteSession", info.id);
+              // The whole tree is deleted, and late events from any of its
+              // sessions must not bring them back.
+              for (const sessionId of sessionTree(info.id)) {
+                loggedSessions.set(sessionId, false);
+                sessionDirectories.delete(sessionId);
+                sessionParents.delete(sessionId);
+              }
+            } else {
+              write(event.type, info.id, "markSessionDeleted", info.id);
+              loggedSessions.delete(info.id);
+              sessionDirectories.delete(info.id);
+            }
             break;
           }
 
           case "session.idle": {
             const sessionID = props.sessionID as string;
-            fireAndForget(
-              () => sql`
-              UPDATE sessions
-              SET status = 'idle', updated_at = NOW()
-              WHERE id = ${sessionID}
-            `,
-              (error) =>
-                logError(client, "Error in session.idle", {
-                  error: String(error),
-                })
-            );
+            // Calls still running when the session stops were interrupted.
+            for (const [callId, pending] of pendingExecutions) {
+              if (pending.sessionId === sessionID) {
+                failToolCall(
+                  event.type,
+                  sessionID,
+                  callId,
+                  pending.toolName,
+                  "interrupted",
+                  new Date()
+                );
+              }
+            }
+            write(event.type, sessionID, "markSessionIdle", sessionID);
             break;
           }
 
@@ -254,19 +676,11 @@ export const DatabasePlugin: Plugin = async ({ client }) => {
               | { name?: string; data?: { message?: string } }
               | undefined;
             if (sessionID) {
-              fireAndForget(async () => {
-                await sql`
-                INSERT INTO session_errors (session_id, error_type, error_message, error_data)
-                VALUES (
-                  ${sessionID},
-                  ${error?.name || "unknown"},
-                  ${error?.data?.message || null},
-                  ${error ? sql.json(error as postgres.JSONValue) : null}
-                )
-              `;
-                await sql`
-                UPDATE sessions SET status = 'error' WHERE id = ${sessionID}
-              `;
+              write(event.type, sessionID, "recordSessionError", {
+                sessionId: sessionID,
+                errorType: error?.name || "unknown",
+                errorMessage: error?.data?.message || null,
+                errorData: error ?? null,
               });
             }
             break;
@@ -275,68 +689,9 @@ export const DatabasePlugin: Plugin = async ({ client }) => {
           case "session.compacted": {
             const sessionID = props.sessionID as string;
 
-            try {
-              const result = await safeQuery(
-                () => sql<
-                  Array<{
-                    context_tokens: number | null;
-                    input_tokens: number | null;
-                    output_tokens: number | null;
-                    cache_read_tokens: number | null;
-                    cache_write_tokens: number | null;
-                    reasoning_tokens: number | null;
-                    estimated_cost: string | null;
-                  }>
-                >`
-                SELECT context_tokens, input_tokens, output_tokens,
-                       cache_read_tokens, cache_write_tokens, reasoning_tokens, estimated_cost
-                FROM sessions WHERE id = ${sessionID}
-              `
-              );
-
-              const sessionState = result?.[0];
-
-              if (sessionState) {
-                fireAndForget(
-                  () => sql`
-                  INSERT INTO compactions (
-                    session_id,
-                    context_tokens_before,
-                    cumulative_input_tokens,
-                    cumulative_output_tokens,
-                    cumulative_cache_read,
-                    cumulative_cache_write,
-                    cumulative_reasoning,
-                    cumulative_cost
-                  )
-                  VALUES (
-                    ${sessionID},
-                    ${sessionState.context_tokens || 0},
-                    ${sessionState.input_tokens || 0},
-                    ${sessionState.output_tokens || 0},
-                    ${sessionState.cache_read_tokens || 0},
-                    ${sessionState.cache_write_tokens || 0},
-                    ${sessionState.reasoning_tokens || 0},
-                    ${parseFloat(sessionState.estimated_cost || "0")}
-                  )
-                `
-                );
-              }
-
-              fireAndForget(
-                () => sql`
-                UPDATE sessions
-                SET
-                  status = 'compacted',
-                  peak_context_tokens = GREATEST(peak_context_tokens, context_tokens),
-                  context_tokens = 0,
-                  compaction_count = compaction_count + 1
-                WHERE id = ${sessionID}
-              `
-              );
-            } catch {}
-
-            tokensCountedBySession.delete(sessionID);
+            // Snapshot and reset run as one queued write so the snapshot sees
+            // every token update enqueued before the compaction.
+            write(event.type, sessionID, "compactSession", sessionID);
             break;
           }
 
@@ -374,248 +729,159 @@ export const DatabasePlugin: Plugin = async ({ client }) => {
               info.providerID || info.model?.providerID || null;
             const modelId = info.modelID || info.model?.modelID || null;
 
-            fireAndForget(
-              async () => {
-                await sql`
-                  INSERT INTO sessions (id, status, created_at, updated_at)
-                  VALUES (${info.sessionID}, 'active', NOW(), NOW())
-                  ON CONFLICT (id) DO UPDATE SET updated_at = NOW()
-                `;
-
-                await sql`
-                  INSERT INTO messages (id, session_id, role, model_provider, model_id, text, summary, content, system_prompt, created_at)
-                  VALUES (
-                    ${info.id},
-                    ${info.sessionID},
-                    ${info.role},
-                    ${modelProvider},
-                    ${modelId},
-                    ${textContent},
-                    ${info.summary?.title || null},
-                    ${messageContent ? sql.json(messageContent as postgres.JSONValue) : null},
-                    ${systemPrompt},
-                    NOW()
-                  )
-                  ON CONFLICT (id) DO UPDATE SET
-                    role = ${info.role},
-                    model_provider = COALESCE(EXCLUDED.model_provider, messages.model_provider),
-                    model_id = COALESCE(EXCLUDED.model_id, messages.model_id),
-                    text = COALESCE(${textContent}, messages.text),
-                    summary = COALESCE(${info.summary?.title || null}, messages.summary),
-                    content = COALESCE(${messageContent ? sql.json(messageContent as postgres.JSONValue) : null}, messages.content),
-                    system_prompt = COALESCE(${systemPrompt}, messages.system_prompt)
-                `;
-              },
-              (error) =>
-                logError(client, "Error in message.updated", {
-                  error: String(error),
-                })
-            );
+            messageRoles.set(info.id, { role: info.role, timestamp: Date.now() });
+            const captured = isCaptured({ role: info.role });
+
+            write(event.type, info.sessionID, "upsertMessage", {
+              id: info.id,
+              sessionId: info.sessionID,
+              role: info.role,
+              modelProvider,
+              modelId,
+              text: captured ? textContent : null,
+              summary: info.summary?.title || null,
+              content: captured ? (messageContent ?? null) : null,
+              systemPrompt:
+                captured && config.capture.systemPrompts ? systemPrompt : null,
+            });
+
+            // Usage is reported again as a message grows; each report
+            // replaces the last one.
+            if (info.role === "assistant" && info.tokens) {
+              const tokens = {
+                input: info.tokens.input ?? 0,
+                output: info.tokens.output ?? 0,
+                reasoning: info.tokens.reasoning ?? 0,
+                cacheRead: info.tokens.cache?.read ?? 0,
+                cacheWrite: info.tokens.cache?.write ?? 0,
+              };
 
-            const sessionTokens =
-              tokensCountedBySession.get(info.sessionID) || new Map<string, number>();
-            if (
-              info.role === "assistant" &&
-              info.tokens &&
-              !sessionTokens.has(info.id)
-            ) {
-              const inputTokens = info.tokens.input ?? 0;
-              const outputTokens = info.tokens.output ?? 0;
-              const reasoningTokens = info.tokens.reasoning ?? 0;
-              const cacheRead = info.tokens.cache?.read ?? 0;
-              const cacheWrite = info.tokens.cache?.write ?? 0;
-
-              if (inputTokens > 0 || outputTokens > 0) {
-                sessionTokens.set(info.id, Date.now());
-                tokensCountedBySession.set(info.sessionID, sessionTokens);
-
-                const contextSize = inputTokens + cacheRead;
-
-                fireAndForget(
-                  () => sql`
-                  UPDATE sessions
-                  SET
-                    input_tokens = input_tokens + ${inputTokens},
-                    output_tokens = output_tokens + ${outputTokens},
-                    reasoning_tokens = reasoning_tokens + ${reasoningTokens},
-                    cache_read_tokens = cache_read_tokens + ${cacheRead},
-                    cache_write_tokens = cache_write_tokens + ${cacheWrite},
-                    context_tokens = ${contextSize},
-                    peak_context_tokens = GREATEST(peak_context_tokens, ${contextSize}),
-                    model_provider = COALESCE(${modelProvider}, model_provider),
-                    model_id = COALESCE(${modelId}, model_id)
-                  WHERE id = ${info.sessionID}
-                `,
-                  (error) =>
-                    logError(client, "Error updating session tokens", {
-                      error: String(error),
-                    })
-                );
+              if (tokens.input > 0 || tokens.output > 0 || info.cost) {
+                write(event.type, info.sessionID, "recordMessageUsage", {
+                  messageId: info.id,
+                  sessionId: info.sessionID,
+                  tokens,
+                  cost: info.cost ?? 0,
+                  modelProvider,
+                  modelId,
+                });
               }
             }
             break;
           }
 
           case "message.removed": {
+            const sessionID = props.sessionID as string;
             const messageID = props.messageID as string;
-            fireAndForget(
-              () => sql`
-              DELETE FROM messages WHERE id = ${messageID}
-            `
-            );
+            messageRoles.delete(messageID);
+            forgetSteps(messageID);
+            write(event.type, sessionID, "removeMessage", messageID);
             break;
           }
 
           case "message.part.updated": {
             const part = props.part as PartInfo;
+            if (!isLogged(part.sessionID)) {
+              break;
+            }
+
             const toolName = part.type === "tool" ? part.tool || null : null;
             const textContent = part.text || null;
 
             if (part.type === "tool" && part.callID) {
-              callIdToPartId.set(part.callID, part.id);
+              callIdToPart.set(part.callID, {
+                partId: part.id,
+                messageId: part.messageID,
+              });
               callIdTimestamps.set(part.callID, Date.now());
               const pending = pendingExecutions.get(part.callID);
-              if (pending) {
+              if (pending && !pending.partId) {
+                // The execution started before its part was seen.
                 pending.partId = part.id;
+                write(
+                  event.type,
+                  part.sessionID,
+                  "linkToolPart",
+                  part.callID,
+                  part.messageID,
+                  part.id
+                );
+              }
+              if (part.state?.status === "error") {
+                failToolCall(
+                  event.type,
+                  part.sessionID,
+                  part.callID,
+                  part.tool || "unknown",
+                  part.state.error || "error",
+                  part.state.time?.end ? new Date(part.state.time.end) : new Date()
+                );
               }
+              addStepToolCall(part);
             }
 
-            if (part.type === "step-finish" && part.cost !== undefined) {
-              const cost = part.cost;
-              fireAndForget(
-                () => sql`
-                UPDATE sessions
-                SET estimated_cost = estimated_cost + ${cost}
-                WHERE id = ${part.sessionID}
-              `
-              );
+            if (part.type === "step-start") {
+              const step = startStep(part);
+              if (step) {
+                write(event.type, part.sessionID, "recordStepStart", step);
+              }
+            } else if (part.type === "step-finish") {
+              const step = finishStep(part);
+              if (step) {
+                write(event.type, part.sessionID, "recordStepFinish", step);
+              }
             }
 
-            const isStreamingTextPart =
-              part.type === "text" || part.type === "reasoning";
-            const partAsJson = { ...part };
-
-            if (isStreamingTextPart) {
-              fireAndForget(async () => {
-                // Insert in correct order: session -> message -> message_parts
-                await sql`
-                  INSERT INTO sessions (id, status, created_at)
-                  VALUES (${part.sessionID}, 'active', NOW())
-                  ON CONFLICT (id) DO NOTHING
-                `;
-
-                await sql`
-                  INSERT INTO messages (id, session_id, role, created_at)
-                  VALUES (${part.messageID}, ${part.sessionID}, 'assistant', NOW())
-                  ON CONFLICT (id) DO UPDATE SET
-                    role = COALESCE(messages.role, 'assistant')
-                `;
-
-                await sql`
-                  INSERT INTO message_parts (id, message_id, part_type, tool_name, text, content, created_at)
-                  VALUES (
-                    ${part.id},
-                    ${part.messageID},
-                    ${part.type},
-                    ${toolName},
-                    ${textContent},
-                    ${sql.json(partAsJson as postgres.JSONValue)},
-                    NOW()
-                  )
-                  ON CONFLICT (id) DO NOTHING
-                `;
-
-                if (textContent) {
-                  await sql`
-                    UPDATE message_parts
-                    SET
-                      tool_name = COALESCE(${toolName}, tool_name),
-                      text = ${textContent},
-                      content = ${sql.json(partAsJson as postgres.JSONValue)}
-                    WHERE id = ${part.id}
-                      AND (text IS NULL OR LENGTH(text) < LENGTH(${textContent}))
-                  `;
-                }
-              });
-            } else {
-              const statusPriority: Record<string, number> = {
-                pending: 1,
-                running: 2,
-                completed: 3,
-                error: 3,
-              };
-              const currentStatus = part.state?.status || "pending";
-              const currentPriority = statusPriority[currentStatus] || 0;
-
-              fireAndForget(async () => {
-                // Insert in correct order: session -> message -> message_parts
-                await sql`
-                  INSERT INTO sessions (id, status, created_at)
-                  VALUES (${part.sessionID}, 'active', NOW())
-                  ON CONFLICT (id) DO NOTHING
-                `;
-
-                await sql`
-                  INSERT INTO messages (id, session_id, role, created_at)
-                  VALUES (${part.messageID}, ${part.sessionID}, 'assistant', NOW())
-                  ON CONFLICT (id) DO UPDATE SET
-                    role = COALESCE(messages.role, 'assistant')
-                `;
-
-                await sql`
-                  INSERT INTO message_parts (id, message_id, part_type, tool_name, text, content, created_at)
-                  VALUES (
-                    ${part.id},
-                    ${part.messageID},
-                    ${part.type},
-                    ${toolName},
-                    ${textContent},
-                    ${sql.json(partAsJson as postgres.JSONValue)},
-                    NOW()
-                  )
-                  ON CONFLICT (id) DO NOTHING
-                `;
-
-                await sql`
-                  UPDATE message_parts
-                  SET
-                    tool_name = COALESCE(${toolName}, tool_name),
-                    text = COALESCE(${textContent}, text),
-                    content = ${sql.json(partAsJson as postgres.JSONValue)}
-                  WHERE id = ${part.id}
-                    AND ${currentPriority} >= COALESCE(
-                      CASE (content->'state'->>'status')
-                        WHEN 'pending' THEN 1
-                        WHEN 'running' THEN 2
-                        WHEN 'completed' THEN 3
-                        WHEN 'error' THEN 3
-                        ELSE 0
-                      END, 0
-                    )
-                `;
-              });
+            const role = messageRoles.get(part.messageID)?.role;
+            if (!isCaptured({ partType: part.type, role })) {
+              break;
             }
 
-            if (part.type === "text" && textContent) {
-              fireAndForget(
-                () => sql`
-                UPDATE messages
-                SET text = ${textContent}
-                WHERE id = ${part.messageID}
-                  AND (text IS NULL OR LENGTH(text) < LENGTH(${textContent}))
-              `
+            const toolCaptured = isCaptured({ tool: toolName });
+            const row = {
+              id: part.id,
+              sessionId: part.sessionID,
+              messageId: part.messageID,
+              type: part.type,
+              toolName,
+              text: textContent,
+              status: part.state?.status || null,
+              content: capturedPart(part, {
+                input: toolCaptured && config.capture.toolArgs,
+                output: toolCaptured && config.capture.toolOutputs,
+                metadata: toolCaptured,
+              }),
+            };
+
+            if (part.type === "text" || part.type === "reasoning") {
+              bufferWrite(
+                part.sessionID,
+                part.id,
+                encryptRow(
+                  "upsertStreamingParts",
+                  limitRow("upsertStreamingParts", redactRow(row))
+                ),
+                storage.upsertStreamingParts,
+                (error) =>
+                  logError(client, "Error writing streaming parts", {
+                    error: String(error),
+                  }),
+                (rows) => ({
+                  eventType: event.type,
+                  operation: "upsertStreamingParts",
+                  args: [rows],
+                })
               );
+            } else {
+              write(event.type, part.sessionID, "upsertPart", row);
             }
             break;
           }
 
           case "message.part.removed": {
+            const sessionID = props.sessionID as string;
             const partID = props.partID as string;
-            fireAndForget(
-              () => sql`
-              DELETE FROM message_parts WHERE id = ${partID}
-            `
-            );
+            write(event.type, sessionID, "removePart", partID);
             break;
           }
 
@@ -623,17 +889,45 @@ export const DatabasePlugin: Plugin = async ({ client }) => {
             const name = props.name as string;
             const sessionID = props.sessionID as string;
             const args = props.arguments as string | undefined;
-            fireAndForget(
-              () => sql`
-              INSERT INTO commands (session_id, command_name, command_args, created_at)
-              VALUES (
-                ${sessionID},
-                ${name},
-                ${args || null},
-                NOW()
-              )
-            `
-            );
+            write(event.type, sessionID, "recordCommand", {
+              sessionId: sessionID,
+              name,
+              args: args || null,
+            });
+            break;
+          }
+
+          case "permission.updated": {
+            const permission: Permission = event.properties;
+            // The title and patterns quote the call's arguments, such as
+            // the command to run, so they follow the tool argument policy.
+            const detailed =
+              isCaptured({ tool: permission.type }) && config.capture.toolArgs;
+            const patterns =
+              permission.pattern === undefined
+                ? null
+                : ([] as string[]).concat(permission.pattern);
+            write(event.type, permission.sessionID, "recordPermissionRequest", {
+              id: permission.id,
+              sessionId: permission.sessionID,
+              messageId: permission.messageID || null,
+              callId: permission.callID || null,
+              type: permission.type,
+              patterns: detailed ? patterns : null,
+              title: detailed ? permission.title || null : null,
+              requestedAt: new Date(permission.time.created),
+            });
+            break;
+          }
+
+          case "permission.replied": {
+            const reply = event.properties;
+            write(event.type, reply.sessionID, "recordPermissionReply", {
+              id: reply.permissionID,
+              sessionId: reply.sessionID,
+              response: reply.response,
+              respondedAt: new Date(),
+            });
             break;
           }
         }
@@ -646,13 +940,21 @@ export const DatabasePlugin: Plugin = async ({ client }) => {
     },
 
     "chat.message": async (input, output) => {
+      if (!isLogged(input.sessionID)) {
+        return;
+      }
+
       try {
-        fireAndForget(
-          () => sql`
-          UPDATE sessions SET status = 'active', updated_at = NOW()
-          WHERE id = ${input.sessionID}
-        `
-        );
+        write("chat.message", input.sessionID, "markSessionActive", input.sessionID);
+        if (output.message?.id) {
+          messageRoles.set(output.message.id, {
+            role: output.message.role,
+            timestamp: Date.now(),
+          });
+        }
+        if (output.message?.role === "user") {
+          snapshotGit("chat.message", input.sessionID, output.message.id ?? null);
+        }
 
         const systemPrompt = (output.message as { system?: string })?.system;
         if (output.parts && output.parts.length > 0) {
@@ -674,9 +976,14 @@ export const DatabasePlugin: Plugin = async ({ client }) => {
     },
 
     "tool.execute.before": async (input, output) => {
+      if (!isLogged(input.sessionID)) {
+        return;
+      }
+
       try {
         const correlationId = generateCorrelationId();
         const startedAt = new Date();
+        const part = callIdToPart.get(input.callID);
 
         pendingExecutions.set(input.callID, {
           correlationId,
@@ -684,32 +991,22 @@ export const DatabasePlugin: Plugin = async ({ client }) => {
           toolName: input.tool,
           args: output.args || {},
           startedAt,
+          partId: part?.partId,
         });
 
-        fireAndForget(
-          () => sql`
-          INSERT INTO tool_executions (
-            correlation_id,
-            session_id,
-            tool_name,
-            args,
-            started_at,
-            created_at
-          )
-          VALUES (
-            ${correlationId},
-            ${input.sessionID},
-            ${input.tool},
-            ${output.args ?? null},
-            ${startedAt},
-            NOW()
-          )
-        `,
-          (error) =>
-            logError(client, "Error recording tool start", {
-              error: String(error),
-            })
-        );
+        const captured = isCaptured({ tool: input.tool });
+
+        write("tool.execute.before", input.sessionID, "recordToolStart", {
+          correlationId,
+          sessionId: input.sessionID,
+          callId: input.callID,
+          messageId: part?.messageId ?? null,
+          partId: part?.partId ?? null,
+          toolName: input.tool,
+          args:
+            captured && config.capture.toolArgs ? (output.args ?? null) : null,
+          startedAt,
+        });
       } catch (error) {
         logError(client, "Error in tool.execute.before", {
           error: String(error),
@@ -718,89 +1015,94 @@ export const DatabasePlugin: Plugin = async ({ client }) => {
     },
 
     "tool.execute.after": async (input, output) => {
+      if (!isLogged(input.sessionID)) {
+        return;
+      }
+
       try {
         const completedAt = new Date();
         const pending = pendingExecutions.get(input.callID);
-        const partId =
-          pending?.partId || callIdToPartId.get(input.callID) || null;
+        const part = callIdToPart.get(input.callID);
+        const partId = pending?.partId || part?.partId || null;
+        const captured = isCaptured({ tool: input.tool });
+        const captureArgs = captured && config.capture.toolArgs;
+        const captureOutput = captured && config.capture.toolOutputs;
+        const result = captureOutput ? (output.output ?? null) : null;
+
+        const correlationId = pending?.correlationId ?? generateCorrelationId();
 
         if (pending) {
           const durationMs =
             completedAt.getTime() - pending.startedAt.getTime();
 
-          fireAndForget(async () => {
-            await sql`
-              UPDATE tool_executions
-              SET
-                result = ${output.output ?? null},
-                completed_at = ${completedAt},
-                duration_ms = ${durationMs},
-                success = true
-              WHERE correlation_id = ${pending.correlationId}
-            `;
-
-            if (partId && output.output) {
-              const outputJson = JSON.stringify(output.output);
-              await sql`
-                UPDATE message_parts
-                SET content = jsonb_set(
-                  COALESCE(content, '{"state":{}}'::jsonb),
-                  '{state,output}',
-                  ${outputJson}::jsonb
-                )
-                WHERE id = ${partId}
-                  AND (content->'state'->>'output') IS NULL
-              `;
-            }
+          write("tool.execute.after", input.sessionID, "recordToolEnd", {
+            correlationId,
+            callId: input.callID,
+            result,
+            completedAt,
+            durationMs,
+            messageId: part?.messageId ?? null,
+            partId,
           });
 
           pendingExecutions.delete(input.callID);
         } else {
-          fireAndForget(async () => {
-            await sql`
-              INSERT INTO tool_executions (
-                correlation_id,
-                session_id,
-                tool_name,
-                args,
-                result,
-                completed_at,
-                success,
-                created_at
-              )
-              VALUES (
-                ${generateCorrelationId()},
-                ${input.sessionID},
-                ${input.tool},
-                ${output.metadata ?? null},
-                ${output.output ?? null},
-                ${completedAt},
-                true,
-                NOW()
-              )
-            `;
-
-            if (partId && output.output) {
-              const outputJson = JSON.stringify(output.output);
-              await sql`
-                UPDATE message_parts
-                SET content = jsonb_set(
-                  COALESCE(content, '{"state":{}}'::jsonb),
-                  '{state,output}',
-                  ${outputJson}::jsonb
-                )
-                WHERE id = ${partId}
-                  AND (content->'state'->>'output') IS NULL
-              `;
-            }
+          write("tool.execute.after", input.sessionID, "recordToolExecution", {
+            correlationId,
+            sessionId: input.sessionID,
+            callId: input.callID,
+            messageId: part?.messageId ?? null,
+            partId,
+            toolName: input.tool,
+            args: captureArgs ? (output.metadata ?? null) : null,
+            result,
+            completedAt,
           });
         }
 
-        callIdToPartId.delete(input.callID);
+        // An encrypted part's content can't be patched in place; the part's
+        // own update carries the output instead. The output isn't a row, so
+        // it is redacted here, before its size is limited.
+        if (partId && result && !currentKeyId()) {
+          write(
+            "tool.execute.after",
+            input.sessionID,
+            "attachToolOutput",
+            partId,
+            limitPayload(redact(result).value)
+          );
+        }
+
+        if (captured && isFileChangeTool(input.tool)) {
+          const changes = extractFileChanges(
+            input.tool,
+            pending?.args ?? {},
+            output.metadata ?? {},
+            sessionDirectories.get(input.sessionID) ?? directory
+          );
+          if (changes.length > 0) {
+            write(
+              "tool.execute.after",
+              input.sessionID,
+              "recordFileChanges",
+              changes.map((change) => ({
+                ...change,
+                diff: captureArgs ? change.diff : null,
+                sessionId: input.sessionID,
+                messageId: part?.messageId ?? null,
+                callId: input.callID,
+                correlationId,
+                toolName: input.tool,
+              }))
+            );
+          }
+        }
+
+        callIdToPart.delete(input.callID);
         callIdTimestamps.delete(input.callID);
       } catch (error) {
         pendingExecutions.delete(input.callID);
-        callIdToPartId.delete(input.callID);
+        callIdToPart.delete(input.callID);
         callIdTimestamps.delete(input.callID);
 
         logError(client, "Error recording tool completion", {
@@ -809,4 +1111,4 @@ export const DatabasePlugin: Plugin = async ({ client }) => {
       }
     },
   };
-};
+}) satisfies Plugin;
@@ -0,0 +1,209 @@
+import type { Database } from "bun:sqlite";
+import type postgres from "postgres";
+import initial from "./sql/migrations/0001_initial.sql" with { type: "text" };
+import failedWrites from "./sql/migrations/0002_failed_writes.sql" with { type: "text" };
+import redactionCounts from "./sql/migrations/0003_redaction_counts.sql" with { type: "text" };
+import encryption from "./sql/migrations/0004_encryption.sql" with { type: "text" };
+import retention from "./sql/migrations/0005_retention.sql" with { type: "text" };
+import sessionTombstones from "./sql/migrations/0006_session_tombstones.sql" with { type: "text" };
+import sessionAttribution from "./sql/migrations/0007_session_attribution.sql" with { type: "text" };
+import gitSnapshots from "./sql/migrations/0008_git_snapshots.sql" with { type: "text" };
+import fileChanges from "./sql/migrations/0009_file_changes.sql" with { type: "text" };
+import messageUsage from "./sql/migrations/0010_message_usage.sql" with { type: "text" };
+import steps from "./sql/migrations/0011_steps.sql" with { type: "text" };
+import modelPrices from "./sql/migrations/0012_model_prices.sql" with { type: "text" };
+import sessionTrees from "./sql/migrations/0013_session_trees.sql" with { type: "text" };
+import toolCallLinks from "./sql/migrations/0014_tool_call_links.sql" with { type: "text" };
+import toolFailures from "./sql/migrations/0015_tool_failures.sql" with { type: "text" };
+import permissions from "./sql/migrations/0016_permissions.sql" with { type: "text" };
+import partStatus from "./sql/migrations/0017_part_status.sql" with { type: "text" };
+import sqliteInitial from "./sql/sqlite/0001_initial.sql" with { type: "text" };
+import sqliteFailedWrites from "./sql/sqlite/0002_failed_writes.sql" with { type: "text" };
+import sqliteRedactionCounts from "./sql/sqlite/0003_redaction_counts.sql" with { type: "text" };
+import sqliteEncryption from "./sql/sqlite/0004_encryption.sql" with { type: "text" };
+import sqliteRetention from "./sql/sqlite/0005_retention.sql" with { type: "text" };
+import sqliteSessionTombstones from "./sql/sqlite/0006_session_tombstones.sql" with { type: "text" };
+import sqliteSessionAttribution from "./sql/sqlite/0007_session_attribution.sql" with { type: "text" };
+import sqliteGitSnapshots from "./sql/sqlite/0008_git_snapshots.sql" with { type: "text" };
+import sqliteFileChanges from "./sql/sqlite/0009_file_changes.sql" with { type: "text" };
+import sqliteMessageUsage from "./sql/sqlite/0010_message_usage.sql" with { type: "text" };
+import sqliteSteps from "./sql/sqlite/0011_steps.sql" with { type: "text" };
+import sqliteModelPrices from "./sql/sqlite/0012_model_prices.sql" with { type: "text" };
+import sqliteSessionTrees from "./sql/sqlite/0013_session_trees.sql" with { type: "text" };
+import sqliteToolCallLinks from "./sql/sqlite/0014_tool_call_links.sql" with { type: "text" };
+import sqliteToolFailures from "./sql/sqlite/0015_tool_failures.sql" with { type: "text" };
+import sqlitePermissions from "./sql/sqlite/0016_permissions.sql" with { type: "text" };
+import sqlitePartStatus from "./sql/sqlite/0017_part_status.sql" with { type: "text" };
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+export interface MigrationResult {
+  from: number;
+  to: number;
+  applied: Migration[];
+}
+
+/**
+ * Ordered list of schema migrations. Append new entries with the next version
+ * number; never edit or reorder one that has shipped.
+ */
+export const MIGRATIONS: Migration[] = [
+  { version: 1, name: "initial", sql: initial },
+  { version: 2, name: "failed_writes", sql: failedWrites },
+  { version: 3, name: "redaction_counts", sql: redactionCounts },
+  { version: 4, name: "encryption", sql: encryption },
+  { version: 5, name: "retention", sql: retention },
+  { version: 6, name: "session_tombstones", sql: sessionTombstones },
+  { version: 7, name: "session_attribution", sql: sessionAttribution },
+  { version: 8, name: "git_snapshots", sql: gitSnapshots },
+  { version: 9, name: "file_changes", sql: fileChanges },
+  { version: 10, name: "message_usage", sql: messageUsage },
+  { version: 11, name: "steps", sql: steps },
+  { version: 12, name: "model_prices", sql: modelPrices },
+  { version: 13, name: "session_trees", sql: sessionTrees },
+  { version: 14, name: "tool_call_links", sql: toolCallLinks },
+  { version: 15, name: "tool_failures", sql: toolFailures },
+  { version: 16, name: "permissions", sql: permissions },
+  { version: 17, name: "part_status", sql: partStatus },
+];
+
+/**
+ * SQLite counterparts of MIGRATIONS. Versions track the Postgres list so both
+ * backends report the same schema version.
+ */
+export const SQLITE_MIGRATIONS: Migration[] = [
+  { version: 1, name: "initial", sql: sqliteInitial },
+  { version: 2, name: "failed_writes", sql: sqliteFailedWrites },
+  { version: 3, name: "redaction_counts", sql: sqliteRedactionCounts },
+  { version: 4, name: "encryption", sql: sqliteEncryption },
+  { version: 5, name: "retention", sql: sqliteRetention },
+  { version: 6, name: "session_tombstones", sql: sqliteSessionTombstones },
+  { version: 7, name: "session_attribution", sql: sqliteSessionAttribution },
+  { version: 8, name: "git_snapshots", sql: sqliteGitSnapshots },
+  { version: 9, name: "file_changes", sql: sqliteFileChanges },
+  { version: 10, name: "message_usage", sql: sqliteMessageUsage },
+  { version: 11, name: "steps", sql: sqliteSteps },
+  { version: 12, name: "model_prices", sql: sqliteModelPrices },
+  { version: 13, name: "session_trees", sql: sqliteSessionTrees },
+  { version: 14, name: "tool_call_links", sql: sqliteToolCallLinks },
+  { version: 15, name: "tool_failures", sql: sqliteToolFailures },
+  { version: 16, name: "permissions", sql: sqlitePermissions },
+  { version: 17, name: "part_status", sql: sqlitePartStatus },
+];
+
+export const LATEST_SCHEMA_VERSION =
+  MIGRATIONS[MIGRATIONS.length - 1]?.version ?? 0;
+
+export class SchemaVersionError extends Error {
+  constructor(
+    readonly databaseVersion: number,
+    readonly supportedVersion: number
+  ) {
+    super(
+      `Database schema is at version ${databaseVersion}, but this plugin only knows up to version ${supportedVersion}. Upgrade the plugin.`
+    );
+    this.name = "SchemaVersionError";
+  }
+}
+
+/**
+ * Applies pending migrations in a single transaction. A transaction-scoped
+ * advisory lock keeps concurrent OpenCode instances from migrating at once;
+ * the second instance waits and then finds nothing left to do.
+ */
+export async function runMigrations(
+  sql: postgres.Sql,
+  migrations: Migration[] = MIGRATIONS
+): Promise<MigrationResult> {
+  const supported = migrations[migrations.length - 1]?.version ?? 0;
+
+  return sql.begin(async (tx) => {
+    await tx`SELECT pg_advisory_xact_lock(hashtext('opencode-database-plugin:migrations'))`;
+
+    await tx`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+
+    const [row] = await tx<Array<{ version: number | null }>>`
+      SELECT MAX(version) AS version FROM schema_migrations
+    `;
+    const current = row?.version ?? 0;
+
+    if (current > supported) {
+      throw new SchemaVersionError(current, supported);
+    }
+
+    const pending = migrations.filter((m) => m.version > current);
+    for (const migration of pending) {
+      await tx.unsafe(migration.sql);
+      await tx`
+        INSERT INTO schema_migrations (version, name)
+        VALUES (${migration.version}, ${migration.name})
+      `;
+    }
+
+    return {
+      from: current,
+      to: pending.length > 0 ? pending[pending.length - 1]!.version : current,
+      applied: pending,
+    };
+  }) as Promise<MigrationResult>;
+}
+
+/**
+ * SQLite equivalent of runMigrations. BEGIN IMMEDIATE takes the database write
+ * lock up front, which serializes concurrent instances the same way the
+ * advisory lock does on Postgres.
+ */
+export function runSqliteMigrations(
+  db: Database,
+  migrations: Migration[] = SQLITE_MIGRATIONS
+): MigrationResult {
+  const supported = migrations[migrations.length - 1]?.version ?? 0;
+
+  const migrate = db.transaction((): MigrationResult => {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+      )
+    `);
+
+    const row = db
+      .query<{ version: number | null }, []>(
+        "SELECT MAX(version) AS version FROM schema_migrations"
+      )
+      .get();
+    const current = row?.version ?? 0;
+
+    if (current > supported) {
+      throw new SchemaVersionError(current, supported);
+    }
+
+    const pending = migrations.filter((m) => m.version > current);
+    for (const migration of pending) {
+      db.run(migration.sql);
+      db.run("INSERT INTO schema_migrations (version, name) VALUES (?, ?)", [
+        migration.version,
+        migration.name,
+      ]);
+    }
+
+    return {
+      from: current,
+      to: pending.length > 0 ? pending[pending.length - 1]!.version : current,
+      applied: pending,
+    };
+  });
+
+  return migrate.immediate();
+}
@@ -0,0 +1,197 @@
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname } from "node:path";
+import { getConfig } from "./config";
+import { errorCode } from "./errors";
+import type { SpooledStatement } from "./spool";
+import type { FailedWriteRow } from "./storage/types";
+
+/** The logical form of a queued write: which storage call, with what. */
+export interface WriteDescription {
+  eventType: string;
+  operation: string;
+  args: unknown[];
+}
+
+export interface QuarantineEntry {
+  quarantinedAt: number;
+  sessionId: string | null;
+  eventType: string | null;
+  operation: string | null;
+  args: unknown[] | null;
+  code: string | null;
+  error: string;
+  statements: SpooledStatement[];
+}
+
+export interface QuarantineStats {
+  path: string;
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  dropped: number;
+}
+
+type FailedWriteSink = (failure: FailedWriteRow) => Promise<void>;
+
+let sink: FailedWriteSink | undefined;
+let loadedPath: string | undefined;
+let entryCount = 0;
+let byteCount = 0;
+let droppedCount = 0;
+
+/**
+ * Sets where described writes are dead-lettered, normally the storage's
+ * failed_writes table. Without a sink every rejected write goes to the file.
+ */
+export function setFailedWriteSink(next: FailedWriteSink | undefined): void {
+  sink = next;
+}
+
+function loadState(): string {
+  const { path } = getConfig().quarantine;
+  if (loadedPath === path) {
+    return path;
+  }
+  loadedPath = path;
+  entryCount = 0;
+  byteCount = 0;
+
+  if (existsSync(path)) {
+    byteCount = statSync(path).size;
+    entryCount = readFileSync(path, "utf8")
+      .split("\n")
+      .filter((line) => line.length > 0).length;
+  }
+  return path;
+}
+
+/**
+ * Appends a rejected write to the local quarantine file. Returns false when
+ * the file is full.
+ */
+export function appendToQuarantine(
+  entry: Omit<QuarantineEntry, "quarantinedAt">
+): boolean {
+  const path = loadState();
+
+  const line =
+    JSON.stringify({ quarantinedAt: Date.now(), ...entry }) + "\n";
+  const lineBytes = Buffer.byteLength(line);
+
+  if (byteCount + lineBytes > getConfig().quarantine.maxBytes) {
+    droppedCount++;
+    return false;
+  }
+
+  try {
+    mkdirSync(dirname(path), { recursive: true });
+    appendFileSync(path, line);
+    byteCount += lineBytes;
+    entryCount++;
+    return true;
+  } catch (writeError) {
+    console.error("[database] Failed to write quarantine:", writeError);
+    droppedCount++;
+    return false;
+  }
+}
+
+/**
+ * Records a write the database rejected because of its data, so the row isn't
+ * silently lost. Described writes are handed to the sink; the file keeps
+ * anything the sink can't take, along with the statements as sent.
+ */
+export async function quarantineWrite(
+  sessionId: string | null,
+  write: WriteDescription | undefined,
+  error: unknown,
+  recordStatements: () => Promise<SpooledStatement[]>
+): Promise<boolean> {
+  const code = errorCode(error) ?? null;
+  const message = String(error);
+
+  if (write && sink) {
+    try {
+      await sink({
+        sessionId,
+        eventType: write.eventType,
+        operation: write.operation,
+        payload: write.args,
+        errorCode: code,
+        errorMessage: message,
+      });
+      return true;
+    } catch (sinkError) {
+      console.error("[database] Failed to record failed write:", sinkError);
+    }
+  }
+
+  return appendToQuarantine({
+    sessionId,
+    eventType: write?.eventType ?? null,
+    operation: write?.operation ?? null,
+    args: write?.args ?? null,
+    code,
+    error: message,
+    statements: await recordStatements(),
+  });
+}
+
+export function readQuarantine(): QuarantineEntry[] {
+  const path = loadState();
+  if (!existsSync(path)) {
+    return [];
+  }
+
+  const entries: QuarantineEntry[] = [];
+  for (const line of readFileSync(path, "utf8").split("\n")) {
+    if (line.length === 0) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line) as QuarantineEntry);
+    } catch {
+      // A torn line from a crash mid-append can't be read back.
+    }
+  }
+  return entries;
+}
+
+/**
+ * Replaces the quarantine file with `entries`. Entries appended since
+ * `readCount` entries were read are kept after them.
+ */
+export function rewriteQuarantine(
+  entries: QuarantineEntry[],
+  readCount: number
+): void {
+  const path = loadState();
+  const appended = readQuarantine().slice(readCount);
+  const next = [...entries, ...appended]
+    .map((entry) => JSON.stringify(entry) + "\n")
+    .join("");
+
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, next);
+  byteCount = Buffer.byteLength(next);
+  entryCount = entries.length + appended.length;
+}
+
+export function getQuarantineStats(): QuarantineStats {
+  const path = loadState();
+
+  return {
+    path,
+    entries: entryCount,
+    bytes: byteCount,
+    maxBytes: getConfig().quarantine.maxBytes,
+    dropped: droppedCount,
+  };
+}
@@ -0,0 +1,171 @@
+import { getConfig, type DatabasePluginConfig } from "./config";
+
+interface Detector {
+  type: string;
+  pattern: RegExp;
+}
+
+/**
+ * Built-in secret formats, most specific first so an Anthropic key isn't
+ * reported as an OpenAI one. Where a pattern has a `secret` group, only that
+ * group is replaced and the surrounding context (a variable name, the user in
+ * a connection string) is kept.
+ */
+const BUILT_IN: Detector[] = [
+  {
+    type: "private_key",
+    pattern:
+      /-----BEGIN [A-Z0-9 ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z0-9 ]*PRIVATE KEY-----/g,
+  },
+  {
+    type: "aws_access_key",
+    pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g,
+  },
+  {
+    type: "aws_secret_key",
+    pattern:
+      /\baws_?secret_?(?:access_?)?key\b["']?\s*[:=]\s*["']?(?<secret>[A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+  },
+  {
+    type: "github_token",
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g,
+  },
+  {
+    type: "anthropic_key",
+    pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g,
+  },
+  {
+    type: "openai_key",
+    pattern: /\bsk-(?:proj-|svcacct-|admin-)?[A-Za-z0-9_-]{20,}/g,
+  },
+  {
+    type: "jwt",
+    pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{5,}/g,
+  },
+  {
+    type: "connection_string",
+    pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:(?<secret>(?!\[REDACTED:)[^\s@/]+)@/gi,
+  },
+];
+
+export interface Redacted<T> {
+  value: T;
+  count: number;
+}
+
+let compiledFor: DatabasePluginConfig["redaction"] | undefined;
+let detectors: Detector[] = [];
+
+function getDetectors(): Detector[] {
+  const { redaction } = getConfig();
+  if (compiledFor !== redaction) {
+    compiledFor = redaction;
+    detectors = redaction.enabled
+      ? [
+          ...BUILT_IN,
+          ...redaction.patterns.map((source) => ({
+            type: "custom",
+            pattern: new RegExp(source, "g"),
+          })),
+        ]
+      : [];
+  }
+  return detectors;
+}
+
+export function placeholder(type: string): string {
+  return `[REDACTED:${type}]`;
+}
+
+export function redactText(text: string): Redacted<string> {
+  let count = 0;
+  let value = text;
+
+  for (const { type, pattern } of getDetectors()) {
+    value = value.replace(pattern, (match: string, ...rest: unknown[]) => {
+      // User patterns that can match nothing shouldn't inflate the count.
+      if (match.length === 0) {
+        return match;
+      }
+      count++;
+
+      const groups = rest[rest.length - 1];
+      const secret =
+        typeof groups === "object" && groups !== null
+          ? (groups as { secret?: string }).secret
+          : undefined;
+      if (!secret) {
+        return placeholder(type);
+      }
+      const at = match.lastIndexOf(secret);
+      return match.slice(0, at) + placeholder(type) + match.slice(at + secret.length);
+    });
+  }
+
+  return { value, count };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Replaces secrets in every string inside `value`, including object values
+ * and array elements. Anything that isn't a string, array or plain
+ * object (numbers, Dates) is passed through untouched.
+ */
+export function redact<T>(value: T): Redacted<T> {
+  if (typeof value === "string") {
+    return redactText(value) as Redacted<T>;
+  }
+
+  if (Array.isArray(value)) {
+    let count = 0;
+    const items = value.map((item) => {
+      const redacted = redact(item);
+      count += redacted.count;
+      return redacted.value;
+    });
+    return { value: items as T, count };
+  }
+
+  if (isPlainObject(value)) {
+    let count = 0;
+    const entries = Object.entries(value).map(([key, field]) => {
+      const redacted = redact(field);
+      count += redacted.count;
+      return [key, redacted.value];
+    });
+    return { value: Object.fromEntries(entries) as T, count };
+  }
+
+  return { value, count: 0 };
+}
+
+/**
+ * Redacts a row bound for storage and records how many secrets were replaced
+ * in it, so the count can be stored alongside the row.
+ */
+export function redactRow<T extends object>(row: T): T & { redactions: number } {
+  const { value, count } = redact(row);
+  return { ...value, redactions: count };
+}
+
+/**
+ * Redacts the arguments of a storage call. Rows, alone or in a batch, get
+ * their redaction count; any other argument is only redacted.
+ */
+export function redactArgs(args: unknown[]): unknown[] {
+  return args.map((arg) => {
+    if (Array.isArray(arg)) {
+      return arg.map((item) =>
+        isPlainObject(item) ? redactRow(item) : redact(item).value
+      );
+    }
+    return isPlainObject(arg) ? redactRow(arg) : redact(arg).value;
+  });
+}
@@ -0,0 +1,71 @@
+import type { PurgeResult, RetentionRules, Storage } from "./storage/types";
+
+let timer: ReturnType<typeof setInterval> | undefined;
+let running: Promise<PurgeResult | null> | undefined;
+
+export function hasRetentionRules(rules: RetentionRules): boolean {
+  return (
+    rules.sessionDays > 0 ||
+    rules.toolResultDays > 0 ||
+    rules.deletedSessionDays > 0
+  );
+}
+
+/** Total rows deleted or stripped by a purge. */
+export function rowsTouched(result: PurgeResult): number {
+  return result.expiredSessions + result.deletedSessions + result.toolResults;
+}
+
+/**
+ * Purges once. A purge still running in this process is joined rather than
+ * started again; null means another instance is purging.
+ */
+export function runRetention(
+  storage: Storage,
+  rules: RetentionRules
+): Promise<PurgeResult | null> {
+  if (!running) {
+    running = storage.purge(rules).finally(() => {
+      running = undefined;
+    });
+  }
+  return running;
+}
+
+/**
+ * Purges now and then every `intervalMs`, handing each result to `onResult`.
+ * Replaces any job already started.
+ */
+export function startRetention(
+  storage: Storage,
+  rules: RetentionRules,
+  intervalMs: number,
+  onResult: (result: PurgeResult) => void,
+  onError: (error: unknown) => void
+): void {
+  stopRetention();
+  if (!hasRetentionRules(rules)) {
+    return;
+  }
+
+  const run = () => {
+    runRetention(storage, rules).then((result) => {
+      if (result) {
+        onResult(result);
+      }
+    }, onError);
+  };
+
+  timer = setInterval(run, intervalMs);
+  if (timer.unref) {
+    timer.unref();
+  }
+  run();
+}
+
+export function stopRetention(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+  }
+}
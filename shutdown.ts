@@ -0,0 +1,49 @@
+const SIGNALS: NodeJS.Signals[] = ["SIGINT", "SIGTERM", "SIGHUP"];
+
+let handler: (() => Promise<void>) | undefined;
+let running: Promise<void> | undefined;
+let installed = false;
+
+/**
+ * Runs the shutdown handler once, however many exit signals arrive. Later
+ * calls wait on the same run.
+ */
+export function runShutdown(): Promise<void> {
+  if (!running) {
+    running = (handler?.() ?? Promise.resolve()).catch((error) => {
+      console.error("[database] Shutdown failed:", error);
+    });
+  }
+  return running;
+}
+
+function onSignal(signal: NodeJS.Signals): void {
+  void runShutdown().finally(() => {
+    // Listening for a signal replaces Node's default of exiting, so exit the
+    // same way unless something else (such as OpenCode) handles it.
+    if (process.listenerCount(signal) === 0) {
+      process.kill(process.pid, signal);
+    }
+  });
+}
+
+/**
+ * Sets what runs when the process is asked to exit or runs out of work. The
+ * plugin may be initialized more than once; the latest handler wins.
+ */
+export function setShutdownHandler(next: () => Promise<void>): void {
+  handler = next;
+  running = undefined;
+
+  if (installed) {
+    return;
+  }
+  installed = true;
+
+  for (const signal of SIGNALS) {
+    process.once(signal, onSignal);
+  }
+  process.once("beforeExit", () => {
+    void runShutdown();
+  });
+}
@@ -0,0 +1,242 @@
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  unlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname, join, parse } from "node:path";
+import { getConfig } from "./config";
+
+export type SpooledValue = { json: unknown } | { value: unknown };
+
+export interface SpooledStatement {
+  strings: string[];
+  values: SpooledValue[];
+}
+
+export interface SpoolEntry {
+  spooledAt: number;
+  statements: SpooledStatement[];
+}
+
+export interface SpoolStats {
+  path: string;
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  dropped: number;
+  replaying: boolean;
+}
+
+let configuredPath: string | undefined;
+let loadedPath = "";
+let entryCount = 0;
+let byteCount = 0;
+let droppedCount = 0;
+let replaying = false;
+
+/**
+ * The spool file of this process: the configured path with the process ID
+ * before the extension. Each OpenCode instance appends to and replays only
+ * its own file, so two instances never replay the same entries.
+ */
+function processSpoolPath(path: string): string {
+  const { dir, name, ext } = parse(path);
+  return join(dir, `${name}.${process.pid}${ext}`);
+}
+
+function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Moves the entries of spool files left by processes that have exited, and
+ * of the shared file earlier versions wrote, to the end of `own`. A file is
+ * renamed before it is read, so only one process can claim it.
+ */
+function adoptOrphanedSpools(path: string, own: string): void {
+  const { dir, name, ext } = parse(path);
+  const pattern = new RegExp(
+    `^${escapeRegExp(name)}(?:\\.(\\d+))?${escapeRegExp(ext)}$`
+  );
+
+  let files: string[];
+  try {
+    files = readdirSync(dir);
+  } catch {
+    return;
+  }
+
+  for (const file of files) {
+    const match = pattern.exec(file);
+    const pid = match?.[1] === undefined ? undefined : Number(match[1]);
+    if (!match || pid === process.pid) {
+      continue;
+    }
+    if (pid !== undefined && isProcessRunning(pid)) {
+      continue;
+    }
+
+    const claimed = join(dir, `${file}.${process.pid}.claimed`);
+    try {
+      renameSync(join(dir, file), claimed);
+    } catch {
+      // Another process claimed it first.
+      continue;
+    }
+
+    try {
+      const content = readFileSync(claimed, "utf8");
+      if (content.length > 0) {
+        appendFileSync(own, content.endsWith("\n") ? content : content + "\n");
+      }
+      unlinkSync(claimed);
+    } catch (error) {
+      console.error("[database] Failed to adopt spool file:", error);
+    }
+  }
+}
+
+/**
+ * Reads the spool size from disk the first time the configured path is used,
+ * and again whenever the configuration points at a different file. Spools
+ * orphaned by exited processes are adopted first, so their entries replay.
+ */
+function loadState(): string {
+  const configured = getConfig().spool.path;
+  if (configuredPath === configured) {
+    return loadedPath;
+  }
+  configuredPath = configured;
+  const path = processSpoolPath(configured);
+  loadedPath = path;
+  byteCount = 0;
+  entryCount = 0;
+
+  adoptOrphanedSpools(configured, path);
+
+  if (!existsSync(path)) {
+    return path;
+  }
+
+  const content = readFileSync(path, "utf8");
+  byteCount = Buffer.byteLength(content);
+  entryCount = content.split("\n").filter((line) => line.length > 0).length;
+  return path;
+}
+
+export function appendToSpool(statements: SpooledStatement[]): boolean {
+  const path = loadState();
+
+  const entry: SpoolEntry = { spooledAt: Date.now(), statements };
+  const line = JSON.stringify(entry) + "\n";
+  const lineBytes = Buffer.byteLength(line);
+
+  if (byteCount + lineBytes > getConfig().spool.maxBytes) {
+    droppedCount++;
+    return false;
+  }
+
+  try {
+    mkdirSync(dirname(path), { recursive: true });
+    appendFileSync(path, line);
+    byteCount += lineBytes;
+    entryCount++;
+    return true;
+  } catch (error) {
+    console.error("[database] Failed to write spool:", error);
+    droppedCount++;
+    return false;
+  }
+}
+
+export function getSpoolStats(): SpoolStats {
+  const path = loadState();
+
+  return {
+    path,
+    entries: entryCount,
+    bytes: byteCount,
+    maxBytes: getConfig().spool.maxBytes,
+    dropped: droppedCount,
+    replaying,
+  };
+}
+
+/**
+ * Whether writes are waiting in the spool or being replayed from it. New
+ * writes queue up behind them until they're done, so a session's writes reach
+ * the database in the order they were made.
+ */
+export function hasSpooledWrites(): boolean {
+  loadState();
+  return replaying || entryCount > 0;
+}
+
+/**
+ * Replays spooled entries in the order they were written. Stops at the first
+ * entry whose executor rejects and keeps it, along with everything after it,
+ * for the next attempt. Entries appended while the replay runs are preserved.
+ */
+export async function replaySpool(
+  execute: (entry: SpoolEntry) => Promise<void>
+): Promise<number> {
+  const path = loadState();
+
+  if (replaying || entryCount === 0 || !existsSync(path)) {
+    return 0;
+  }
+
+  replaying = true;
+  let replayed = 0;
+
+  try {
+    const snapshot = readFileSync(path, "utf8");
+    const snapshotBytes = Buffer.byteLength(snapshot);
+    const lines = snapshot.split("\n").filter((line) => line.length > 0);
+
+    let index = 0;
+    for (; index < lines.length; index++) {
+      let entry: SpoolEntry;
+      try {
+        entry = JSON.parse(lines[index]!) as SpoolEntry;
+      } catch {
+        // A torn line from a crash mid-append can't be replayed.
+        continue;
+      }
+
+      try {
+        await execute(entry);
+        replayed++;
+      } catch {
+        break;
+      }
+    }
+
+    const current = readFileSync(path);
+    const appended = current.subarray(snapshotBytes).toString("utf8");
+    const remaining = lines.slice(index).map((line) => line + "\n").join("");
+    const next = remaining + appended;
+
+    writeFileSync(path, next);
+    byteCount = Buffer.byteLength(next);
+    entryCount = next.split("\n").filter((line) => line.length > 0).length;
+  } finally {
+    replaying = false;
+  }
+
+  return replayed;
+}
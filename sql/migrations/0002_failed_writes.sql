@@ -0,0 +1,24 @@
+CREATE TABLE IF NOT EXISTS failed_writes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    session_id TEXT,
+    event_type TEXT,
+    operation TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    error_code TEXT,
+    error_message TEXT,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    last_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+    resolved_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_failed_writes_pending ON failed_writes(created_at) WHERE resolved_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_failed_writes_session_id ON failed_writes(session_id);
+CREATE INDEX IF NOT EXISTS idx_failed_writes_error_code ON failed_writes(error_code);
+
+DROP TRIGGER IF EXISTS update_failed_writes_updated_at ON failed_writes;
+CREATE TRIGGER update_failed_writes_updated_at
+    BEFORE UPDATE ON failed_writes
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,5 @@
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS redaction_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE message_parts ADD COLUMN IF NOT EXISTS redaction_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE tool_executions ADD COLUMN IF NOT EXISTS redaction_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE commands ADD COLUMN IF NOT EXISTS redaction_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE session_errors ADD COLUMN IF NOT EXISTS redaction_count INTEGER NOT NULL DEFAULT 0;
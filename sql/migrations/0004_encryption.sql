@@ -0,0 +1,17 @@
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS encryption_key_id TEXT;
+ALTER TABLE message_parts ADD COLUMN IF NOT EXISTS encryption_key_id TEXT;
+ALTER TABLE tool_executions ADD COLUMN IF NOT EXISTS encryption_key_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_messages_encryption_key_id
+  ON messages(encryption_key_id) WHERE encryption_key_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_message_parts_encryption_key_id
+  ON message_parts(encryption_key_id) WHERE encryption_key_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_tool_executions_encryption_key_id
+  ON tool_executions(encryption_key_id) WHERE encryption_key_id IS NOT NULL;
+
+-- Ciphertext has no words to search, so encrypted messages are left out of
+-- the full-text index. Queries must repeat the predicate to use it.
+DROP INDEX IF EXISTS idx_messages_text_fts;
+CREATE INDEX IF NOT EXISTS idx_messages_text_fts
+  ON messages USING GIN (to_tsvector('english', COALESCE(text, '')))
+  WHERE encryption_key_id IS NULL;
@@ -0,0 +1,8 @@
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS os_user TEXT;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS hostname TEXT;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS member_id TEXT;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS opencode_version TEXT;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS plugin_version TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_member_id ON sessions(member_id);
+CREATE INDEX IF NOT EXISTS idx_sessions_os_user ON sessions(os_user);
@@ -0,0 +1,28 @@
+CREATE TABLE IF NOT EXISTS git_snapshots (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    message_id TEXT,
+    event_type TEXT NOT NULL,
+    branch TEXT,
+    commit_sha TEXT,
+    remote_url TEXT,
+    dirty_files INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_git_snapshots_session_id ON git_snapshots(session_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_git_snapshots_commit_sha ON git_snapshots(commit_sha);
+
+CREATE OR REPLACE VIEW session_git_view AS
+SELECT
+    session_id,
+    COUNT(*) AS snapshots,
+    (array_agg(branch ORDER BY created_at))[1] AS start_branch,
+    (array_agg(commit_sha ORDER BY created_at))[1] AS start_commit,
+    (array_agg(branch ORDER BY created_at DESC))[1] AS end_branch,
+    (array_agg(commit_sha ORDER BY created_at DESC))[1] AS end_commit,
+    (array_agg(dirty_files ORDER BY created_at DESC))[1] AS end_dirty_files,
+    (array_agg(remote_url ORDER BY created_at DESC))[1] AS remote_url,
+    COUNT(DISTINCT commit_sha) AS commits_seen
+FROM git_snapshots
+GROUP BY session_id;
@@ -0,0 +1,68 @@
+-- Rates are in USD per million tokens. Reasoning tokens are billed at the
+-- output rate unless reasoning_per_mtok is set.
+CREATE TABLE IF NOT EXISTS model_prices (
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    effective_from DATE NOT NULL,
+    input_per_mtok NUMERIC(12, 6) NOT NULL DEFAULT 0,
+    output_per_mtok NUMERIC(12, 6) NOT NULL DEFAULT 0,
+    cache_read_per_mtok NUMERIC(12, 6) NOT NULL DEFAULT 0,
+    cache_write_per_mtok NUMERIC(12, 6) NOT NULL DEFAULT 0,
+    reasoning_per_mtok NUMERIC(12, 6),
+    PRIMARY KEY (provider, model, effective_from)
+);
+
+INSERT INTO model_prices (provider, model, effective_from, input_per_mtok, output_per_mtok, cache_read_per_mtok, cache_write_per_mtok)
+VALUES
+    ('anthropic', 'claude-opus-4-1', '2025-01-01', 15, 75, 1.5, 18.75),
+    ('anthropic', 'claude-opus-4-5', '2025-01-01', 5, 25, 0.5, 6.25),
+    ('anthropic', 'claude-sonnet-4', '2025-01-01', 3, 15, 0.3, 3.75),
+    ('anthropic', 'claude-sonnet-4-5', '2025-01-01', 3, 15, 0.3, 3.75),
+    ('anthropic', 'claude-haiku-4-5', '2025-01-01', 1, 5, 0.1, 1.25),
+    ('openai', 'gpt-5', '2025-01-01', 1.25, 10, 0.125, 0),
+    ('openai', 'gpt-5-mini', '2025-01-01', 0.25, 2, 0.025, 0),
+    ('openai', 'gpt-5-nano', '2025-01-01', 0.05, 0.4, 0.005, 0),
+    ('openai', 'gpt-4.1', '2025-01-01', 2, 8, 0.5, 0),
+    ('openai', 'gpt-4.1-mini', '2025-01-01', 0.4, 1.6, 0.1, 0),
+    ('openai', 'gpt-4.1-nano', '2025-01-01', 0.1, 0.4, 0.025, 0),
+    ('google', 'gemini-2.5-pro', '2025-01-01', 1.25, 10, 0.31, 0),
+    ('google', 'gemini-2.5-flash', '2025-01-01', 0.3, 2.5, 0.075, 0),
+    ('google', 'gemini-2.5-flash-lite', '2025-01-01', 0.1, 0.4, 0.025, 0)
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS computed_cost NUMERIC(10, 6);
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS computed_cost NUMERIC(10, 6);
+
+-- Prices each message with usage at the rate in effect when it was created.
+-- Providers report dated IDs such as claude-sonnet-4-5-20250929, so a price
+-- applies to its model and to the model with a date after a dash. Other
+-- suffixes name sibling models, such as gpt-5-nano, with prices of their own.
+CREATE OR REPLACE VIEW message_cost_view AS
+SELECT
+    m.id AS message_id,
+    m.session_id,
+    p.effective_from,
+    (
+        COALESCE(m.input_tokens, 0) * p.input_per_mtok
+        + COALESCE(m.output_tokens, 0) * p.output_per_mtok
+        + COALESCE(m.reasoning_tokens, 0) * COALESCE(p.reasoning_per_mtok, p.output_per_mtok)
+        + COALESCE(m.cache_read_tokens, 0) * p.cache_read_per_mtok
+        + COALESCE(m.cache_write_tokens, 0) * p.cache_write_per_mtok
+    ) / 1000000 AS cost
+FROM messages m
+CROSS JOIN LATERAL (
+    SELECT q.*
+    FROM model_prices q
+    WHERE q.provider = m.model_provider
+        AND (
+            q.model = m.model_id
+            OR (
+                substr(m.model_id, 1, length(q.model) + 1) = q.model || '-'
+                AND substr(m.model_id, length(q.model) + 2) ~ '^(\d{4}-\d{2}-\d{2}|\d{8})$'
+            )
+        )
+        AND q.effective_from <= m.created_at
+    ORDER BY length(q.model) DESC, q.effective_from DESC
+    LIMIT 1
+) p
+WHERE m.input_tokens IS NOT NULL;
@@ -0,0 +1,28 @@
+-- Calls still running, or whose outcome was never seen, have no success value
+-- and are left out of the rates.
+CREATE OR REPLACE VIEW tool_failure_rate_view AS
+SELECT
+    t.tool_name,
+    COUNT(*) AS calls,
+    COUNT(*) FILTER (WHERE NOT t.success) AS failures,
+    ROUND(COUNT(*) FILTER (WHERE NOT t.success)::NUMERIC / COUNT(*), 4) AS failure_rate,
+    MAX(t.completed_at) FILTER (WHERE NOT t.success) AS last_failure_at
+FROM tool_executions t
+WHERE t.success IS NOT NULL
+GROUP BY t.tool_name;
+
+-- The model is the one that made the call, or the session's latest model for
+-- executions not linked to a message.
+CREATE OR REPLACE VIEW model_failure_rate_view AS
+SELECT
+    COALESCE(m.model_provider, s.model_provider) AS model_provider,
+    COALESCE(m.model_id, s.model_id) AS model_id,
+    COUNT(*) AS calls,
+    COUNT(*) FILTER (WHERE NOT t.success) AS failures,
+    ROUND(COUNT(*) FILTER (WHERE NOT t.success)::NUMERIC / COUNT(*), 4) AS failure_rate,
+    COUNT(DISTINCT t.tool_name) FILTER (WHERE NOT t.success) AS failing_tools
+FROM tool_executions t
+JOIN sessions s ON s.id = t.session_id
+LEFT JOIN messages m ON m.id = t.message_id
+WHERE t.success IS NOT NULL
+GROUP BY COALESCE(m.model_provider, s.model_provider), COALESCE(m.model_id, s.model_id);
@@ -0,0 +1,9 @@
+-- A tool part's status, kept in the clear so the latest state can win over
+-- late updates even when content is encrypted. Encrypted parts recorded
+-- before this version have no status until they're next updated.
+ALTER TABLE message_parts ADD COLUMN IF NOT EXISTS status TEXT;
+
+UPDATE message_parts
+SET status = content->'state'->>'status'
+WHERE status IS NULL
+    AND jsonb_typeof(content) = 'object';
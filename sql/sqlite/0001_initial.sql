@@ -0,0 +1,184 @@
+CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    deleted_at TEXT,
+    project_id TEXT,
+    parent_id TEXT,
+    directory TEXT,
+    title TEXT,
+    status TEXT,
+    model_provider TEXT,
+    model_id TEXT,
+    share_url TEXT,
+    input_tokens INTEGER DEFAULT 0,
+    output_tokens INTEGER DEFAULT 0,
+    cache_read_tokens INTEGER DEFAULT 0,
+    cache_write_tokens INTEGER DEFAULT 0,
+    reasoning_tokens INTEGER DEFAULT 0,
+    context_tokens INTEGER DEFAULT 0,
+    peak_context_tokens INTEGER DEFAULT 0,
+    estimated_cost REAL DEFAULT 0,
+    compaction_count INTEGER DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS messages (
+    id TEXT PRIMARY KEY,
+    created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    role TEXT NOT NULL,
+    model_provider TEXT,
+    model_id TEXT,
+    text TEXT,
+    summary TEXT,
+    content TEXT,
+    system_prompt TEXT
+);
+
+CREATE TABLE IF NOT EXISTS message_parts (
+    id TEXT PRIMARY KEY,
+    created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    message_id TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+    part_type TEXT NOT NULL,
+    tool_name TEXT,
+    text TEXT,
+    content TEXT
+);
+
+CREATE TABLE IF NOT EXISTS tool_executions (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    started_at TEXT,
+    completed_at TEXT,
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    correlation_id TEXT NOT NULL,
+    tool_name TEXT NOT NULL,
+    args TEXT,
+    result TEXT,
+    duration_ms INTEGER,
+    success INTEGER,
+    error TEXT
+);
+
+CREATE TABLE IF NOT EXISTS session_errors (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    error_type TEXT,
+    error_message TEXT,
+    error_data TEXT
+);
+
+CREATE TABLE IF NOT EXISTS commands (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    command_name TEXT NOT NULL,
+    command_args TEXT
+);
+
+CREATE TABLE IF NOT EXISTS compactions (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    context_tokens_before INTEGER NOT NULL DEFAULT 0,
+    cumulative_input_tokens INTEGER NOT NULL DEFAULT 0,
+    cumulative_output_tokens INTEGER NOT NULL DEFAULT 0,
+    cumulative_cache_read INTEGER NOT NULL DEFAULT 0,
+    cumulative_cache_write INTEGER NOT NULL DEFAULT 0,
+    cumulative_reasoning INTEGER NOT NULL DEFAULT 0,
+    cumulative_cost REAL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_created_at ON sessions(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sessions_status ON sessions(status);
+CREATE INDEX IF NOT EXISTS idx_sessions_project_id ON sessions(project_id);
+
+CREATE INDEX IF NOT EXISTS idx_messages_session_id ON messages(session_id);
+CREATE INDEX IF NOT EXISTS idx_messages_created_at ON messages(created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_message_parts_message_id ON message_parts(message_id);
+CREATE INDEX IF NOT EXISTS idx_message_parts_part_type ON message_parts(part_type);
+CREATE INDEX IF NOT EXISTS idx_message_parts_tool_name ON message_parts(tool_name);
+
+CREATE INDEX IF NOT EXISTS idx_tool_executions_session_id ON tool_executions(session_id);
+CREATE INDEX IF NOT EXISTS idx_tool_executions_correlation_id ON tool_executions(correlation_id);
+CREATE INDEX IF NOT EXISTS idx_tool_executions_tool_name ON tool_executions(tool_name);
+CREATE INDEX IF NOT EXISTS idx_tool_executions_started_at ON tool_executions(started_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_session_errors_session_id ON session_errors(session_id);
+
+CREATE INDEX IF NOT EXISTS idx_commands_session_id ON commands(session_id);
+CREATE INDEX IF NOT EXISTS idx_commands_command_name ON commands(command_name);
+
+CREATE INDEX IF NOT EXISTS idx_compactions_session_id ON compactions(session_id);
+CREATE INDEX IF NOT EXISTS idx_compactions_created_at ON compactions(created_at DESC);
+
+CREATE TRIGGER IF NOT EXISTS update_sessions_updated_at
+    AFTER UPDATE ON sessions
+    FOR EACH ROW WHEN NEW.updated_at = OLD.updated_at
+    BEGIN
+        UPDATE sessions SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+    END;
+
+CREATE TRIGGER IF NOT EXISTS update_messages_updated_at
+    AFTER UPDATE ON messages
+    FOR EACH ROW WHEN NEW.updated_at = OLD.updated_at
+    BEGIN
+        UPDATE messages SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+    END;
+
+CREATE TRIGGER IF NOT EXISTS update_message_parts_updated_at
+    AFTER UPDATE ON message_parts
+    FOR EACH ROW WHEN NEW.updated_at = OLD.updated_at
+    BEGIN
+        UPDATE message_parts SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+    END;
+
+CREATE TRIGGER IF NOT EXISTS update_tool_executions_updated_at
+    AFTER UPDATE ON tool_executions
+    FOR EACH ROW WHEN NEW.updated_at = OLD.updated_at
+    BEGIN
+        UPDATE tool_executions SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+    END;
+
+CREATE TRIGGER IF NOT EXISTS update_session_errors_updated_at
+    AFTER UPDATE ON session_errors
+    FOR EACH ROW WHEN NEW.updated_at = OLD.updated_at
+    BEGIN
+        UPDATE session_errors SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+    END;
+
+CREATE TRIGGER IF NOT EXISTS update_commands_updated_at
+    AFTER UPDATE ON commands
+    FOR EACH ROW WHEN NEW.updated_at = OLD.updated_at
+    BEGIN
+        UPDATE commands SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+    END;
+
+CREATE VIEW IF NOT EXISTS conversation_view AS
+SELECT
+    m.id AS message_id,
+    m.session_id,
+    m.role,
+    m.model_provider,
+    m.model_id,
+    m.created_at,
+    m.text,
+    m.summary,
+    COALESCE(
+        (SELECT group_concat(mp.text, char(10))
+         FROM message_parts mp
+         WHERE mp.message_id = m.id AND mp.part_type = 'reasoning'),
+        ''
+    ) AS reasoning,
+    (SELECT json_group_array(DISTINCT mp.tool_name)
+     FROM message_parts mp
+     WHERE mp.message_id = m.id AND mp.tool_name IS NOT NULL) AS tools_used
+FROM messages m
+ORDER BY m.created_at;
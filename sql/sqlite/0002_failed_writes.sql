@@ -0,0 +1,25 @@
+CREATE TABLE IF NOT EXISTS failed_writes (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    session_id TEXT,
+    event_type TEXT,
+    operation TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    error_code TEXT,
+    error_message TEXT,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    last_attempt_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    resolved_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_failed_writes_pending ON failed_writes(created_at) WHERE resolved_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_failed_writes_session_id ON failed_writes(session_id);
+CREATE INDEX IF NOT EXISTS idx_failed_writes_error_code ON failed_writes(error_code);
+
+CREATE TRIGGER IF NOT EXISTS update_failed_writes_updated_at
+    AFTER UPDATE ON failed_writes
+    FOR EACH ROW WHEN NEW.updated_at = OLD.updated_at
+    BEGIN
+        UPDATE failed_writes SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+    END;
@@ -0,0 +1,10 @@
+ALTER TABLE messages ADD COLUMN encryption_key_id TEXT;
+ALTER TABLE message_parts ADD COLUMN encryption_key_id TEXT;
+ALTER TABLE tool_executions ADD COLUMN encryption_key_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_messages_encryption_key_id
+  ON messages(encryption_key_id) WHERE encryption_key_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_message_parts_encryption_key_id
+  ON message_parts(encryption_key_id) WHERE encryption_key_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_tool_executions_encryption_key_id
+  ON tool_executions(encryption_key_id) WHERE encryption_key_id IS NOT NULL;
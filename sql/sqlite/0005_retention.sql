@@ -0,0 +1,5 @@
+CREATE INDEX IF NOT EXISTS idx_sessions_updated_at ON sessions(updated_at);
+CREATE INDEX IF NOT EXISTS idx_sessions_deleted_at
+  ON sessions(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_tool_executions_created_at ON tool_executions(created_at);
+CREATE INDEX IF NOT EXISTS idx_message_parts_created_at ON message_parts(created_at);
@@ -0,0 +1,8 @@
+ALTER TABLE sessions ADD COLUMN os_user TEXT;
+ALTER TABLE sessions ADD COLUMN hostname TEXT;
+ALTER TABLE sessions ADD COLUMN member_id TEXT;
+ALTER TABLE sessions ADD COLUMN opencode_version TEXT;
+ALTER TABLE sessions ADD COLUMN plugin_version TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_member_id ON sessions(member_id);
+CREATE INDEX IF NOT EXISTS idx_sessions_os_user ON sessions(os_user);
@@ -0,0 +1,28 @@
+CREATE TABLE IF NOT EXISTS git_snapshots (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    message_id TEXT,
+    event_type TEXT NOT NULL,
+    branch TEXT,
+    commit_sha TEXT,
+    remote_url TEXT,
+    dirty_files INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_git_snapshots_session_id ON git_snapshots(session_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_git_snapshots_commit_sha ON git_snapshots(commit_sha);
+
+CREATE VIEW IF NOT EXISTS session_git_view AS
+SELECT
+    g.session_id,
+    COUNT(*) AS snapshots,
+    (SELECT branch FROM git_snapshots f WHERE f.session_id = g.session_id ORDER BY f.created_at, f.rowid LIMIT 1) AS start_branch,
+    (SELECT commit_sha FROM git_snapshots f WHERE f.session_id = g.session_id ORDER BY f.created_at, f.rowid LIMIT 1) AS start_commit,
+    (SELECT branch FROM git_snapshots l WHERE l.session_id = g.session_id ORDER BY l.created_at DESC, l.rowid DESC LIMIT 1) AS end_branch,
+    (SELECT commit_sha FROM git_snapshots l WHERE l.session_id = g.session_id ORDER BY l.created_at DESC, l.rowid DESC LIMIT 1) AS end_commit,
+    (SELECT dirty_files FROM git_snapshots l WHERE l.session_id = g.session_id ORDER BY l.created_at DESC, l.rowid DESC LIMIT 1) AS end_dirty_files,
+    (SELECT remote_url FROM git_snapshots l WHERE l.session_id = g.session_id ORDER BY l.created_at DESC, l.rowid DESC LIMIT 1) AS remote_url,
+    COUNT(DISTINCT g.commit_sha) AS commits_seen
+FROM git_snapshots g
+GROUP BY g.session_id;
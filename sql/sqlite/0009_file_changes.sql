@@ -0,0 +1,34 @@
+CREATE TABLE IF NOT EXISTS file_changes (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    message_id TEXT,
+    correlation_id TEXT,
+    tool_name TEXT NOT NULL,
+    file_path TEXT NOT NULL,
+    operation TEXT NOT NULL,
+    lines_added INTEGER,
+    lines_removed INTEGER,
+    diff TEXT,
+    redaction_count INTEGER NOT NULL DEFAULT 0,
+    encryption_key_id TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_file_changes_session_id ON file_changes(session_id);
+CREATE INDEX IF NOT EXISTS idx_file_changes_file_path ON file_changes(file_path);
+CREATE INDEX IF NOT EXISTS idx_file_changes_correlation_id ON file_changes(correlation_id);
+CREATE INDEX IF NOT EXISTS idx_file_changes_encryption_key_id
+  ON file_changes(encryption_key_id) WHERE encryption_key_id IS NOT NULL;
+
+CREATE VIEW IF NOT EXISTS most_touched_files_view AS
+SELECT
+    s.project_id,
+    fc.file_path,
+    COUNT(*) AS changes,
+    COUNT(DISTINCT fc.session_id) AS sessions,
+    COALESCE(SUM(fc.lines_added), 0) AS lines_added,
+    COALESCE(SUM(fc.lines_removed), 0) AS lines_removed,
+    MAX(fc.created_at) AS last_changed_at
+FROM file_changes fc
+JOIN sessions s ON s.id = fc.session_id
+GROUP BY s.project_id, fc.file_path;
@@ -0,0 +1,23 @@
+ALTER TABLE messages ADD COLUMN input_tokens INTEGER;
+ALTER TABLE messages ADD COLUMN output_tokens INTEGER;
+ALTER TABLE messages ADD COLUMN reasoning_tokens INTEGER;
+ALTER TABLE messages ADD COLUMN cache_read_tokens INTEGER;
+ALTER TABLE messages ADD COLUMN cache_write_tokens INTEGER;
+ALTER TABLE messages ADD COLUMN cost REAL;
+
+CREATE INDEX IF NOT EXISTS idx_messages_cost ON messages(cost) WHERE cost IS NOT NULL;
+
+CREATE VIEW IF NOT EXISTS session_usage_view AS
+SELECT
+    session_id,
+    COUNT(*) AS assistant_messages,
+    COALESCE(SUM(input_tokens), 0) AS input_tokens,
+    COALESCE(SUM(output_tokens), 0) AS output_tokens,
+    COALESCE(SUM(reasoning_tokens), 0) AS reasoning_tokens,
+    COALESCE(SUM(cache_read_tokens), 0) AS cache_read_tokens,
+    COALESCE(SUM(cache_write_tokens), 0) AS cache_write_tokens,
+    COALESCE(SUM(cost), 0) AS cost,
+    MAX(cost) AS most_expensive_message_cost
+FROM messages
+WHERE input_tokens IS NOT NULL
+GROUP BY session_id;
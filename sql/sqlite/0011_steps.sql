@@ -0,0 +1,24 @@
+CREATE TABLE IF NOT EXISTS steps (
+    id TEXT PRIMARY KEY,
+    created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    message_id TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+    step_index INTEGER NOT NULL,
+    finish_part_id TEXT,
+    started_at TEXT,
+    finished_at TEXT,
+    duration_ms INTEGER,
+    finish_reason TEXT,
+    input_tokens INTEGER,
+    output_tokens INTEGER,
+    reasoning_tokens INTEGER,
+    cache_read_tokens INTEGER,
+    cache_write_tokens INTEGER,
+    cost REAL,
+    tool_calls TEXT,
+    tool_call_count INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_steps_message_id ON steps(message_id, step_index);
+CREATE INDEX IF NOT EXISTS idx_steps_session_id ON steps(session_id);
+CREATE INDEX IF NOT EXISTS idx_steps_finish_reason ON steps(finish_reason);
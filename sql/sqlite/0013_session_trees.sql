@@ -0,0 +1,87 @@
+-- The top session of each session's tree of subagents. Sessions whose parent
+-- was never recorded are roots of their own tree.
+ALTER TABLE sessions ADD COLUMN root_session_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_root_session_id ON sessions(root_session_id);
+
+WITH RECURSIVE tree AS (
+    SELECT s.id, s.id AS root_session_id
+    FROM sessions s
+    WHERE s.parent_id IS NULL
+        OR NOT EXISTS (SELECT 1 FROM sessions p WHERE p.id = s.parent_id)
+    UNION ALL
+    SELECT s.id, tree.root_session_id
+    FROM sessions s
+    JOIN tree ON s.parent_id = tree.id
+)
+UPDATE sessions
+SET root_session_id = tree.root_session_id
+FROM tree
+WHERE sessions.id = tree.id AND sessions.root_session_id IS NULL;
+
+CREATE VIEW IF NOT EXISTS session_tree_view AS
+WITH RECURSIVE tree AS (
+    SELECT s.id, s.id AS root_session_id, 0 AS depth
+    FROM sessions s
+    WHERE s.parent_id IS NULL
+        OR NOT EXISTS (SELECT 1 FROM sessions p WHERE p.id = s.parent_id)
+    UNION ALL
+    SELECT s.id, tree.root_session_id, tree.depth + 1
+    FROM sessions s
+    JOIN tree ON s.parent_id = tree.id
+)
+SELECT
+    tree.root_session_id,
+    s.id AS session_id,
+    s.parent_id,
+    tree.depth,
+    s.title,
+    s.status,
+    s.created_at,
+    s.updated_at,
+    s.input_tokens,
+    s.output_tokens,
+    s.reasoning_tokens,
+    s.cache_read_tokens,
+    s.cache_write_tokens,
+    s.estimated_cost,
+    s.computed_cost,
+    COALESCE(t.tool_calls, 0) AS tool_calls,
+    COALESCE(t.failed_tool_calls, 0) AS failed_tool_calls,
+    COALESCE(e.errors, 0) AS errors
+FROM tree
+JOIN sessions s ON s.id = tree.id
+LEFT JOIN (
+    SELECT
+        session_id,
+        COUNT(*) AS tool_calls,
+        COUNT(*) FILTER (WHERE NOT success) AS failed_tool_calls
+    FROM tool_executions
+    GROUP BY session_id
+) t ON t.session_id = s.id
+LEFT JOIN (
+    SELECT session_id, COUNT(*) AS errors
+    FROM session_errors
+    GROUP BY session_id
+) e ON e.session_id = s.id;
+
+CREATE VIEW IF NOT EXISTS session_tree_rollup_view AS
+SELECT
+    root_session_id,
+    COUNT(*) AS sessions,
+    MAX(depth) AS max_depth,
+    SUM(input_tokens) AS input_tokens,
+    SUM(output_tokens) AS output_tokens,
+    SUM(reasoning_tokens) AS reasoning_tokens,
+    SUM(cache_read_tokens) AS cache_read_tokens,
+    SUM(cache_write_tokens) AS cache_write_tokens,
+    SUM(estimated_cost) AS estimated_cost,
+    SUM(computed_cost) AS computed_cost,
+    SUM(tool_calls) AS tool_calls,
+    SUM(failed_tool_calls) AS failed_tool_calls,
+    SUM(errors) AS errors,
+    MIN(created_at) AS started_at,
+    MAX(updated_at) AS last_activity_at,
+    CAST(ROUND((julianday(MAX(updated_at)) - julianday(MIN(created_at))) * 86400000) AS INTEGER) AS wall_time_ms
+FROM session_tree_view
+GROUP BY root_session_id;
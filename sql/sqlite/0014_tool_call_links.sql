@@ -0,0 +1,8 @@
+-- Tool executions recorded before this version have no call ID, so they
+-- can't be matched to their parts and are left unlinked.
+ALTER TABLE tool_executions ADD COLUMN call_id TEXT;
+ALTER TABLE tool_executions ADD COLUMN message_id TEXT;
+ALTER TABLE tool_executions ADD COLUMN part_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tool_executions_call_id ON tool_executions(call_id);
+CREATE INDEX IF NOT EXISTS idx_tool_executions_message_id ON tool_executions(message_id);
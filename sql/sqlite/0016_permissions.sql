@@ -0,0 +1,39 @@
+-- One row per permission OpenCode asked the user for, keyed by its ID.
+-- response is once, always or reject, and stays empty until answered.
+CREATE TABLE IF NOT EXISTS permissions (
+    id TEXT PRIMARY KEY,
+    created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    message_id TEXT,
+    call_id TEXT,
+    permission_type TEXT,
+    patterns TEXT,
+    title TEXT,
+    requested_at TEXT,
+    responded_at TEXT,
+    response TEXT,
+    latency_ms INTEGER,
+    redaction_count INTEGER NOT NULL DEFAULT 0,
+    encryption_key_id TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_permissions_session_id ON permissions(session_id, requested_at);
+CREATE INDEX IF NOT EXISTS idx_permissions_call_id ON permissions(call_id);
+
+CREATE VIEW IF NOT EXISTS permission_audit_view AS
+SELECT
+    p.id AS permission_id,
+    p.session_id,
+    p.message_id,
+    p.call_id,
+    p.permission_type,
+    p.patterns,
+    p.title,
+    p.requested_at,
+    p.response,
+    p.latency_ms,
+    t.id AS tool_execution_id,
+    t.tool_name,
+    t.success AS tool_success
+FROM permissions p
+LEFT JOIN tool_executions t ON t.call_id = p.call_id;
@@ -0,0 +1,128 @@
+import type { StepFinishRow, StepStartRow } from "./storage/types";
+
+/** The parts of a step-start, step-finish or tool part that steps use. */
+export interface StepPart {
+  id: string;
+  sessionID: string;
+  messageID: string;
+  type: string;
+  tool?: string;
+  callID?: string;
+  reason?: string;
+  cost?: number;
+  tokens?: {
+    input?: number;
+    output?: number;
+    reasoning?: number;
+    cache?: { read?: number; write?: number };
+  };
+}
+
+interface StepState {
+  id: string;
+  index: number;
+  startedAt: Date | null;
+  toolCalls: Map<string, string>;
+  finishPartId: string | null;
+  /** When the step last changed, for cleanup. */
+  timestamp: number;
+}
+
+/** The latest step of each message, by message ID. */
+const steps = new Map<string, StepState>();
+
+/**
+ * Opens a step for a step-start part. Returns the row to record, or null when
+ * the part was seen before.
+ */
+export function startStep(part: StepPart, now = new Date()): StepStartRow | null {
+  const previous = steps.get(part.messageID);
+  if (previous?.id === part.id) {
+    return null;
+  }
+
+  const step: StepState = {
+    id: part.id,
+    index: previous ? previous.index + 1 : 0,
+    startedAt: now,
+    toolCalls: new Map(),
+    finishPartId: null,
+    timestamp: now.getTime(),
+  };
+  steps.set(part.messageID, step);
+  return {
+    id: step.id,
+    sessionId: part.sessionID,
+    messageId: part.messageID,
+    stepIndex: step.index,
+    startedAt: now,
+  };
+}
+
+/** Notes a tool part's call on the message's open step. */
+export function addStepToolCall(part: StepPart): void {
+  const step = steps.get(part.messageID);
+  if (step && !step.finishPartId && part.callID) {
+    step.toolCalls.set(part.callID, part.tool ?? "unknown");
+    step.timestamp = Date.now();
+  }
+}
+
+/**
+ * Closes the message's open step for a step-finish part. A finish without a
+ * start seen by this process becomes a step of its own, without a start time.
+ * Returns null when the part was seen before.
+ */
+export function finishStep(part: StepPart, now = new Date()): StepFinishRow | null {
+  let step = steps.get(part.messageID);
+  if (step?.finishPartId === part.id) {
+    return null;
+  }
+  if (!step || step.finishPartId) {
+    step = {
+      id: part.id,
+      index: step ? step.index + 1 : 0,
+      startedAt: null,
+      toolCalls: new Map(),
+      finishPartId: null,
+      timestamp: now.getTime(),
+    };
+    steps.set(part.messageID, step);
+  }
+  step.finishPartId = part.id;
+  step.timestamp = now.getTime();
+
+  return {
+    id: step.id,
+    sessionId: part.sessionID,
+    messageId: part.messageID,
+    stepIndex: step.index,
+    startedAt: step.startedAt,
+    finishPartId: part.id,
+    finishedAt: now,
+    durationMs: step.startedAt ? now.getTime() - step.startedAt.getTime() : null,
+    reason: part.reason || null,
+    tokens: {
+      input: part.tokens?.input ?? 0,
+      output: part.tokens?.output ?? 0,
+      reasoning: part.tokens?.reasoning ?? 0,
+      cacheRead: part.tokens?.cache?.read ?? 0,
+      cacheWrite: part.tokens?.cache?.write ?? 0,
+    },
+    cost: part.cost ?? 0,
+    toolCalls: [...step.toolCalls].map(([callId, tool]) => ({ callId, tool })),
+  };
+}
+
+export function forgetSteps(messageId: string): void {
+  steps.delete(messageId);
+}
+
+/** Forgets the steps of messages that haven't changed for `maxAgeMs`. */
+export function cleanupSteps(maxAgeMs: number, now = Date.now()): void {
+  for (const [messageId, step] of steps) {
+    if (now - step.timestamp > maxAgeMs) {
+      steps.delete(messageId);
+    }
+  }
+}
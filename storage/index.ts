@@ -0,0 +1,39 @@
+import { fileURLToPath } from "node:url";
+import { getConfig } from "../config";
+import { createPostgresStorage } from "./postgres";
+import type { Storage } from "./types";
+
+export type * from "./types";
+
+/**
+ * Picks a backend from the connection URL scheme. `sqlite:` and `file:` URLs
+ * open a local SQLite database; anything else is handed to Postgres.
+ */
+export async function createStorage(
+  url = getConfig().databaseUrl
+): Promise<Storage> {
+  const path = sqlitePath(url);
+  if (path !== null) {
+    // Loaded on demand so the Postgres path never evaluates the SQLite backend
+    // or `bun:sqlite`; the build splits it into a chunk of its own for this.
+    const { createSqliteStorage } = await import("./sqlite");
+    return createSqliteStorage(path);
+  }
+  return createPostgresStorage();
+}
+
+/**
+ * Returns the database file for a SQLite URL, or null for any other scheme.
+ * Accepts `sqlite:///abs/path.db`, `sqlite://relative.db`, `sqlite::memory:`
+ * and `file:///abs/path.db`.
+ */
+export function sqlitePath(url: string): string | null {
+  if (url.startsWith("file:")) {
+    return fileURLToPath(url);
+  }
+  if (!url.startsWith("sqlite:")) {
+    return null;
+  }
+  const rest = url.slice("sqlite:".length).replace(/^\/\//, "");
+  return rest === "" || rest === ":memory:" ? ":memory:" : rest;
+}
@@ -0,0 +1,999 @@
+import type postgres from "postgres";
+import { sql, ensureConnection } from "../db";
+import { runMigrations } from "../migrations";
+import {
+  ENCRYPTED_COLUMNS,
+  type FailedWrite,
+  type PartRow,
+  type PurgeResult,
+  type StaleEncryptedRow,
+  type Storage,
+} from "./types";
+
+function json(value: unknown) {
+  return sql.json(value as postgres.JSONValue);
+}
+
+const statusPriority: Record<string, number> = {
+  pending: 1,
+  running: 2,
+  completed: 3,
+  error: 3,
+};
+
+export function createPostgresStorage(): Storage {
+  return {
+    backend: "postgres",
+
+    connect: ensureConnection,
+
+    migrate: () => runMigrations(sql),
+
+    async close() {
+      await sql.end();
+    },
+
+    async upsertSession(session) {
+      const attribution = session.attribution;
+      // Subagent sessions can be written before their parent. When the parent
+      // arrives, its children and their trees move under its root.
+      await sql`
+        WITH upserted AS (
+          INSERT INTO sessions (
+            id,
+            title,
+            parent_id,
+            root_session_id,
+            project_id,
+            directory,
+            os_user,
+            hostname,
+            member_id,
+            opencode_version,
+            plugin_version,
+            status,
+            created_at
+          )
+          VALUES (
+            ${session.id},
+            ${session.title},
+            ${session.parentId},
+            COALESCE(
+              (SELECT COALESCE(root_session_id, id) FROM sessions WHERE id = ${session.parentId}),
+              ${session.id}
+            ),
+            ${session.projectId},
+            ${session.directory},
+            ${attribution?.osUser ?? null},
+            ${attribution?.hostname ?? null},
+            ${attribution?.memberId ?? null},
+            ${attribution?.opencodeVersion ?? null},
+            ${attribution?.pluginVersion ?? null},
+            'created',
+            NOW()
+          )
+          ON CONFLICT (id) DO UPDATE SET
+            title = COALESCE(${session.title}, sessions.title),
+            parent_id = COALESCE(${session.parentId}, sessions.parent_id),
+            root_session_id = CASE
+              WHEN sessions.parent_id IS NULL AND EXCLUDED.parent_id IS NOT NULL
+                THEN EXCLUDED.root_session_id
+              ELSE COALESCE(sessions.root_session_id, EXCLUDED.root_session_id)
+            END,
+            project_id = COALESCE(${session.projectId}, sessions.project_id),
+            directory = COALESCE(${session.directory}, sessions.directory),
+            os_user = COALESCE(sessions.os_user, EXCLUDED.os_user),
+            hostname = COALESCE(sessions.hostname, EXCLUDED.hostname),
+            member_id = COALESCE(sessions.member_id, EXCLUDED.member_id),
+            opencode_version = COALESCE(sessions.opencode_version, EXCLUDED.opencode_version),
+            plugin_version = COALESCE(sessions.plugin_version, EXCLUDED.plugin_version)
+          RETURNING id, root_session_id
+        )
+        UPDATE sessions
+        SET root_session_id = upserted.root_session_id
+        FROM upserted
+        WHERE sessions.id <> upserted.id
+          AND sessions.root_session_id <> upserted.root_session_id
+          AND (
+            sessions.root_session_id = upserted.id
+            OR sessions.root_session_id IN (
+              SELECT children.id FROM sessions children WHERE children.parent_id = upserted.id
+            )
+          )
+      `;
+    },
+
+    async updateSession(update) {
+      await sql`
+        UPDATE sessions
+        SET title = COALESCE(${update.title}, title),
+            share_url = COALESCE(${update.shareUrl}, share_url)
+        WHERE id = ${update.id}
+      `;
+    },
+
+    async markSessionActive(sessionId) {
+      await sql`
+        UPDATE sessions SET status = 'active', updated_at = NOW()
+        WHERE id = ${sessionId}
+      `;
+    },
+
+    async markSessionIdle(sessionId) {
+      await sql`
+        UPDATE sessions
+        SET status = 'idle', updated_at = NOW()
+        WHERE id = ${sessionId}
+      `;
+    },
+
+    async markSessionDeleted(sessionId) {
+      await sql`
+        UPDATE sessions
+        SET deleted_at = NOW(), status = 'deleted'
+        WHERE id = ${sessionId}
+      `;
+    },
+
+    async hardDeleteSession(sessionId) {
+      // One statement, so it is atomic and can be spooled like any other write.
+      await sql`
+        WITH RECURSIVE tree AS (
+          SELECT ${sessionId}::text AS id
+          UNION
+          SELECT sessions.id FROM sessions JOIN tree ON sessions.parent_id = tree.id
+        ),
+        deleted_sessions AS (
+          DELETE FROM sessions WHERE id IN (SELECT id FROM tree)
+        ),
+        deleted_failed_writes AS (
+          DELETE FROM failed_writes WHERE session_id IN (SELECT id FROM tree)
+        )
+        INSERT INTO session_tombstones (session_id)
+        SELECT id FROM tree
+        ON CONFLICT (session_id) DO NOTHING
+      `;
+    },
+
+    async recordSessionError(error) {
+      await sql`
+        INSERT INTO session_errors (session_id, error_type, error_message, error_data, redaction_count)
+        VALUES (
+          ${error.sessionId},
+          ${error.errorType},
+          ${error.errorMessage},
+          ${error.errorData ? json(error.errorData) : null},
+          ${error.redactions ?? 0}
+        )
+      `;
+      await sql`
+        UPDATE sessions SET status = 'error' WHERE id = ${error.sessionId}
+      `;
+    },
+
+    async compactSession(sessionId) {
+      // The snapshot is read by the INSERT itself rather than a separate
+      // SELECT, so a write recorded for the spool still carries it.
+      await sql`
+        INSERT INTO compactions (
+          session_id,
+          context_tokens_before,
+          cumulative_input_tokens,
+          cumulative_output_tokens,
+          cumulative_cache_read,
+          cumulative_cache_write,
+          cumulative_reasoning,
+          cumulative_cost
+        )
+        SELECT id,
+               COALESCE(context_tokens, 0),
+               COALESCE(input_tokens, 0),
+               COALESCE(output_tokens, 0),
+               COALESCE(cache_read_tokens, 0),
+               COALESCE(cache_write_tokens, 0),
+               COALESCE(reasoning_tokens, 0),
+               COALESCE(estimated_cost, 0)
+        FROM sessions WHERE id = ${sessionId}
+      `;
+
+      await sql`
+        UPDATE sessions
+        SET
+          status = 'compacted',
+          peak_context_tokens = GREATEST(peak_context_tokens, context_tokens),
+          context_tokens = 0,
+          compaction_count = compaction_count + 1
+        WHERE id = ${sessionId}
+      `;
+    },
+
+    async recordMessageUsage(usage) {
+      const { tokens } = usage;
+      const contextSize = tokens.input + tokens.cacheRead;
+
+      // One statement, so the delta and the stored values can't drift apart.
+      await sql`
+        WITH previous AS (
+          SELECT input_tokens, output_tokens, reasoning_tokens,
+                 cache_read_tokens, cache_write_tokens, cost
+          FROM messages
+          WHERE id = ${usage.messageId}
+        ), updated AS (
+          UPDATE messages
+          SET
+            input_tokens = ${tokens.input},
+            output_tokens = ${tokens.output},
+            reasoning_tokens = ${tokens.reasoning},
+            cache_read_tokens = ${tokens.cacheRead},
+            cache_write_tokens = ${tokens.cacheWrite},
+            cost = ${usage.cost},
+            model_provider = COALESCE(${usage.modelProvider}, model_provider),
+            model_id = COALESCE(${usage.modelId}, model_id)
+          WHERE id = ${usage.messageId}
+          RETURNING session_id
+        )
+        UPDATE sessions
+        SET
+          input_tokens = sessions.input_tokens + ${tokens.input} - COALESCE(previous.input_tokens, 0),
+          output_tokens = sessions.output_tokens + ${tokens.output} - COALESCE(previous.output_tokens, 0),
+          reasoning_tokens = sessions.reasoning_tokens + ${tokens.reasoning} - COALESCE(previous.reasoning_tokens, 0),
+          cache_read_tokens = sessions.cache_read_tokens + ${tokens.cacheRead} - COALESCE(previous.cache_read_tokens, 0),
+          cache_write_tokens = sessions.cache_write_tokens + ${tokens.cacheWrite} - COALESCE(previous.cache_write_tokens, 0),
+          estimated_cost = sessions.estimated_cost + ${usage.cost} - COALESCE(previous.cost, 0),
+          context_tokens = ${contextSize},
+          peak_context_tokens = GREATEST(sessions.peak_context_tokens, ${contextSize}),
+          model_provider = COALESCE(${usage.modelProvider}, sessions.model_provider),
+          model_id = COALESCE(${usage.modelId}, sessions.model_id)
+        FROM updated, previous
+        WHERE sessions.id = updated.session_id
+      `;
+
+      // Priced separately, as the statement above can't see its own updates.
+      // The session sums its messages, which can't see the new price either,
+      // so it is added to the others.
+      await sql`
+        WITH priced AS (
+          UPDATE messages
+          SET computed_cost = message_cost_view.cost
+          FROM message_cost_view
+          WHERE messages.id = ${usage.messageId}
+            AND message_cost_view.message_id = messages.id
+          RETURNING messages.id, messages.session_id, messages.computed_cost
+        )
+        UPDATE sessions
+        SET computed_cost = priced.computed_cost + COALESCE((
+          SELECT SUM(others.computed_cost)
+          FROM messages others
+          WHERE others.session_id = priced.session_id
+            AND others.id <> priced.id
+        ), 0)
+        FROM priced
+        WHERE sessions.id = priced.session_id
+      `;
+    },
+
+    async recomputeCosts() {
+      return sql.begin(async (tx) => {
+        const repriced = await tx`
+          UPDATE messages
+          SET computed_cost = message_cost_view.cost
+          FROM message_cost_view
+          WHERE message_cost_view.message_id = messages.id
+        `;
+        await tx`
+          UPDATE sessions
+          SET computed_cost = totals.computed_cost
+          FROM (
+            SELECT session_id, SUM(computed_cost) AS computed_cost
+            FROM messages
+            WHERE computed_cost IS NOT NULL
+            GROUP BY session_id
+          ) totals
+          WHERE sessions.id = totals.session_id
+        `;
+        return repriced.count;
+      });
+    },
+
+    async upsertMessage(message) {
+      const content = message.content ? json(message.content) : null;
+
+      await sql`
+        INSERT INTO sessions (id, status, created_at, updated_at)
+        VALUES (${message.sessionId}, 'active', NOW(), NOW())
+        ON CONFLICT (id) DO UPDATE SET updated_at = NOW()
+      `;
+
+      await sql`
+        INSERT INTO messages (id, session_id, role, model_provider, model_id, text, summary, content, system_prompt, redaction_count, encryption_key_id, created_at)
+        VALUES (
+          ${message.id},
+          ${message.sessionId},
+          ${message.role},
+          ${message.modelProvider},
+          ${message.modelId},
+          ${message.text},
+          ${message.summary},
+          ${content},
+          ${message.systemPrompt},
+          ${message.redactions ?? 0},
+          ${message.encryptionKeyId ?? null},
+          NOW()
+        )
+        ON CONFLICT (id) DO UPDATE SET
+          role = ${message.role},
+          model_provider = COALESCE(EXCLUDED.model_provider, messages.model_provider),
+          model_id = COALESCE(EXCLUDED.model_id, messages.model_id),
+          text = COALESCE(${message.text}, messages.text),
+          summary = COALESCE(${message.summary}, messages.summary),
+          content = COALESCE(${content}, messages.content),
+          system_prompt = COALESCE(${message.systemPrompt}, messages.system_prompt),
+          redaction_count = GREATEST(EXCLUDED.redaction_count, messages.redaction_count),
+          encryption_key_id = COALESCE(EXCLUDED.encryption_key_id, messages.encryption_key_id)
+      `;
+    },
+
+    async removeMessage(messageId) {
+      await sql`
+        DELETE FROM messages WHERE id = ${messageId}
+      `;
+    },
+
+    async upsertPart(part) {
+      const currentPriority = statusPriority[part.status || "pending"] || 0;
+
+      // Insert in correct order: session -> message -> message_parts
+      await sql`
+        INSERT INTO sessions (id, status, created_at)
+        VALUES (${part.sessionId}, 'active', NOW())
+        ON CONFLICT (id) DO NOTHING
+      `;
+
+      await sql`
+        INSERT INTO messages (id, session_id, role, created_at)
+        VALUES (${part.messageId}, ${part.sessionId}, 'assistant', NOW())
+        ON CONFLICT (id) DO UPDATE SET
+          role = COALESCE(messages.role, 'assistant')
+      `;
+
+      await sql`
+        INSERT INTO message_parts (id, message_id, part_type, tool_name, text, status, content, redaction_count, encryption_key_id, created_at)
+        VALUES (
+          ${part.id},
+          ${part.messageId},
+          ${part.type},
+          ${part.toolName},
+          ${part.text},
+          ${part.status},
+          ${json(part.content)},
+          ${part.redactions ?? 0},
+          ${part.encryptionKeyId ?? null},
+          NOW()
+        )
+        ON CONFLICT (id) DO NOTHING
+      `;
+
+      await sql`
+        UPDATE message_parts
+        SET
+          tool_name = COALESCE(${part.toolName}, tool_name),
+          text = COALESCE(${part.text}, text),
+          status = COALESCE(${part.status}, status),
+          content = ${json(part.content)},
+          redaction_count = ${part.redactions ?? 0},
+          encryption_key_id = ${part.encryptionKeyId ?? null}
+        WHERE id = ${part.id}
+          AND ${currentPriority} >= COALESCE(
+            CASE status
+              WHEN 'pending' THEN 1
+              WHEN 'running' THEN 2
+              WHEN 'completed' THEN 3
+              WHEN 'error' THEN 3
+              ELSE 0
+            END, 0
+          )
+      `;
+    },
+
+    upsertStreamingParts,
+
+    async removePart(partId) {
+      await sql`
+        DELETE FROM message_parts WHERE id = ${partId}
+      `;
+    },
+
+    async recordStepStart(step) {
+      await ensureMessage(step.sessionId, step.messageId);
+      await sql`
+        INSERT INTO steps (id, session_id, message_id, step_index, started_at, created_at)
+        VALUES (${step.id}, ${step.sessionId}, ${step.messageId}, ${step.stepIndex}, ${step.startedAt}, NOW())
+        ON CONFLICT (id) DO NOTHING
+      `;
+    },
+
+    async recordStepFinish(step) {
+      const { tokens } = step;
+      await ensureMessage(step.sessionId, step.messageId);
+      await sql`
+        INSERT INTO steps (
+          id, session_id, message_id, step_index, started_at, finish_part_id,
+          finished_at, duration_ms, finish_reason, input_tokens, output_tokens,
+          reasoning_tokens, cache_read_tokens, cache_write_tokens, cost,
+          tool_calls, tool_call_count, created_at
+        )
+        VALUES (
+          ${step.id},
+          ${step.sessionId},
+          ${step.messageId},
+          ${step.stepIndex},
+          ${step.startedAt},
+          ${step.finishPartId},
+          ${step.finishedAt},
+          ${step.durationMs},
+          ${step.reason},
+          ${tokens.input},
+          ${tokens.output},
+          ${tokens.reasoning},
+          ${tokens.cacheRead},
+          ${tokens.cacheWrite},
+          ${step.cost},
+          ${json(step.toolCalls)},
+          ${step.toolCalls.length},
+          NOW()
+        )
+        ON CONFLICT (id) DO UPDATE SET
+          finish_part_id = EXCLUDED.finish_part_id,
+          finished_at = EXCLUDED.finished_at,
+          duration_ms = EXCLUDED.duration_ms,
+          finish_reason = EXCLUDED.finish_reason,
+          input_tokens = EXCLUDED.input_tokens,
+          output_tokens = EXCLUDED.output_tokens,
+          reasoning_tokens = EXCLUDED.reasoning_tokens,
+          cache_read_tokens = EXCLUDED.cache_read_tokens,
+          cache_write_tokens = EXCLUDED.cache_write_tokens,
+          cost = EXCLUDED.cost,
+          tool_calls = EXCLUDED.tool_calls,
+          tool_call_count = EXCLUDED.tool_call_count
+      `;
+    },
+
+    async recordCommand(command) {
+      await sql`
+        INSERT INTO commands (session_id, command_name, command_args, redaction_count, created_at)
+        VALUES (
+          ${command.sessionId},
+          ${command.name},
+          ${command.args},
+          ${command.redactions ?? 0},
+          NOW()
+        )
+      `;
+    },
+
+    async recordPermissionRequest(request) {
+      await sql`
+        INSERT INTO sessions (id, status, created_at, updated_at)
+        VALUES (${request.sessionId}, 'active', NOW(), NOW())
+        ON CONFLICT (id) DO NOTHING
+      `;
+
+      await sql`
+        INSERT INTO permissions (
+          id,
+          session_id,
+          message_id,
+          call_id,
+          permission_type,
+          patterns,
+          title,
+          requested_at,
+          redaction_count,
+          encryption_key_id
+        )
+        VALUES (
+          ${request.id},
+          ${request.sessionId},
+          ${request.messageId},
+          ${request.callId},
+          ${request.type},
+          ${request.patterns ? json(request.patterns) : null},
+          ${request.title},
+          ${request.requestedAt},
+          ${request.redactions ?? 0},
+          ${request.encryptionKeyId ?? null}
+        )
+        ON CONFLICT (id) DO UPDATE SET
+          message_id = EXCLUDED.message_id,
+          call_id = EXCLUDED.call_id,
+          permission_type = EXCLUDED.permission_type,
+          patterns = EXCLUDED.patterns,
+          title = EXCLUDED.title,
+          requested_at = EXCLUDED.requested_at,
+          latency_ms = (EXTRACT(EPOCH FROM permissions.responded_at - EXCLUDED.requested_at) * 1000)::INTEGER,
+          redaction_count = EXCLUDED.redaction_count,
+          encryption_key_id = EXCLUDED.encryption_key_id
+      `;
+    },
+
+    async recordPermissionReply(reply) {
+      await sql`
+        INSERT INTO sessions (id, status, created_at, updated_at)
+        VALUES (${reply.sessionId}, 'active', NOW(), NOW())
+        ON CONFLICT (id) DO NOTHING
+      `;
+
+      await sql`
+        INSERT INTO permissions (id, session_id, responded_at, response)
+        VALUES (${reply.id}, ${reply.sessionId}, ${reply.respondedAt}, ${reply.response})
+        ON CONFLICT (id) DO UPDATE SET
+          responded_at = EXCLUDED.responded_at,
+          response = EXCLUDED.response,
+          latency_ms = (EXTRACT(EPOCH FROM EXCLUDED.responded_at - permissions.requested_at) * 1000)::INTEGER
+      `;
+    },
+
+    async recordGitSnapshot(snapshot) {
+      await sql`
+        INSERT INTO sessions (id, status, created_at, updated_at)
+        VALUES (${snapshot.sessionId}, 'active', NOW(), NOW())
+        ON CONFLICT (id) DO NOTHING
+      `;
+
+      await sql`
+        INSERT INTO git_snapshots (session_id, message_id, event_type, branch, commit_sha, remote_url, dirty_files, created_at)
+        VALUES (
+          ${snapshot.sessionId},
+          ${snapshot.messageId},
+          ${snapshot.eventType},
+          ${snapshot.branch},
+          ${snapshot.commitSha},
+          ${snapshot.remoteUrl},
+          ${snapshot.dirtyFiles},
+          NOW()
+        )
+      `;
+    },
+
+    async recordToolStart(start) {
+      await sql`
+        INSERT INTO tool_executions (
+          correlation_id,
+          session_id,
+          call_id,
+          message_id,
+          part_id,
+          tool_name,
+          args,
+          started_at,
+          redaction_count,
+          encryption_key_id,
+          created_at
+        )
+        VALUES (
+          ${start.correlationId},
+          ${start.sessionId},
+          ${start.callId ?? null},
+          ${start.messageId ?? null},
+          ${start.partId ?? null},
+          ${start.toolName},
+          ${(start.args ?? null) as postgres.SerializableParameter},
+          ${start.startedAt},
+          ${start.redactions ?? 0},
+          ${start.encryptionKeyId ?? null},
+          NOW()
+        )
+        ON CONFLICT (call_id) DO NOTHING
+      `;
+    },
+
+    async recordToolEnd(end) {
+      await sql`
+        UPDATE tool_executions
+        SET
+          result = ${(end.result ?? null) as postgres.SerializableParameter},
+          completed_at = ${end.completedAt},
+          duration_ms = ${end.durationMs},
+          success = true,
+          redaction_count = redaction_count + ${end.redactions ?? 0},
+          encryption_key_id = COALESCE(${end.encryptionKeyId ?? null}, encryption_key_id),
+          message_id = COALESCE(message_id, ${end.messageId ?? null}),
+          part_id = COALESCE(part_id, ${end.partId ?? null})
+        WHERE call_id = ${end.callId ?? null}
+          OR (${end.callId ?? null}::text IS NULL AND correlation_id = ${end.correlationId})
+      `;
+    },
+
+    async recordToolExecution(execution) {
+      await sql`
+        INSERT INTO tool_executions (
+          correlation_id,
+          session_id,
+          call_id,
+          message_id,
+          part_id,
+          tool_name,
+          args,
+          result,
+          completed_at,
+          success,
+          redaction_count,
+          encryption_key_id,
+          created_at
+        )
+        VALUES (
+          ${execution.correlationId},
+          ${execution.sessionId},
+          ${execution.callId ?? null},
+          ${execution.messageId ?? null},
+          ${execution.partId ?? null},
+          ${execution.toolName},
+          ${(execution.args ?? null) as postgres.SerializableParameter},
+          ${(execution.result ?? null) as postgres.SerializableParameter},
+          ${execution.completedAt},
+          true,
+          ${execution.redactions ?? 0},
+          ${execution.encryptionKeyId ?? null},
+          NOW()
+        )
+        ON CONFLICT (call_id) DO UPDATE SET
+          result = EXCLUDED.result,
+          completed_at = EXCLUDED.completed_at,
+          duration_ms = (EXTRACT(EPOCH FROM EXCLUDED.completed_at - tool_executions.started_at) * 1000)::INTEGER,
+          success = true,
+          redaction_count = tool_executions.redaction_count + EXCLUDED.redaction_count,
+          encryption_key_id = COALESCE(EXCLUDED.encryption_key_id, tool_executions.encryption_key_id),
+          message_id = COALESCE(tool_executions.message_id, EXCLUDED.message_id),
+          part_id = COALESCE(tool_executions.part_id, EXCLUDED.part_id)
+      `;
+    },
+
+    async linkToolPart(callId, messageId, partId) {
+      await sql`
+        UPDATE tool_executions
+        SET message_id = ${messageId}, part_id = ${partId}
+        WHERE call_id = ${callId} AND part_id IS NULL
+      `;
+    },
+
+    async recordToolFailure(failure) {
+      await sql`
+        INSERT INTO tool_executions (
+          correlation_id,
+          session_id,
+          call_id,
+          message_id,
+          part_id,
+          tool_name,
+          completed_at,
+          success,
+          error,
+          redaction_count,
+          created_at
+        )
+        VALUES (
+          ${failure.correlationId},
+          ${failure.sessionId},
+          ${failure.callId},
+          ${failure.messageId ?? null},
+          ${failure.partId ?? null},
+          ${failure.toolName},
+          ${failure.completedAt},
+          false,
+          ${failure.error},
+          ${failure.redactions ?? 0},
+          NOW()
+        )
+        ON CONFLICT (call_id) DO UPDATE SET
+          completed_at = COALESCE(tool_executions.completed_at, EXCLUDED.completed_at),
+          duration_ms = COALESCE(
+            tool_executions.duration_ms,
+            (EXTRACT(EPOCH FROM EXCLUDED.completed_at - tool_executions.started_at) * 1000)::INTEGER
+          ),
+          success = false,
+          error = EXCLUDED.error,
+          redaction_count = tool_executions.redaction_count + EXCLUDED.redaction_count,
+          message_id = COALESCE(tool_executions.message_id, EXCLUDED.message_id),
+          part_id = COALESCE(tool_executions.part_id, EXCLUDED.part_id)
+      `;
+    },
+
+    async attachToolOutput(partId, output) {
+      const outputJson = JSON.stringify(output);
+      await sql`
+        UPDATE message_parts
+        SET content = jsonb_set(
+          COALESCE(content, '{"state":{}}'::jsonb),
+          '{state,output}',
+          ${outputJson}::jsonb
+        )
+        WHERE id = ${partId}
+          AND (content->'state'->>'output') IS NULL
+      `;
+    },
+
+    async recordFileChanges(changes) {
+      if (changes.length === 0) {
+        return;
+      }
+
+      await sql`
+        INSERT INTO sessions (id, status, created_at, updated_at)
+        VALUES (${changes[0]!.sessionId}, 'active', NOW(), NOW())
+        ON CONFLICT (id) DO NOTHING
+      `;
+
+      await sql`
+        INSERT INTO file_changes (session_id, message_id, correlation_id, tool_name, file_path, operation, lines_added, lines_removed, diff, redaction_count, encryption_key_id, created_at)
+        SELECT
+          c.session_id,
+          c.message_id,
+          COALESCE(t.correlation_id, c.correlation_id),
+          c.tool_name,
+          c.file_path,
+          c.operation,
+          c.lines_added,
+          c.lines_removed,
+          c.diff,
+          c.redaction_count,
+          c.encryption_key_id,
+          NOW()
+        FROM unnest(
+          ${changes.map((change) => change.sessionId)}::text[],
+          ${changes.map((change) => change.messageId)}::text[],
+          ${changes.map((change) => change.callId ?? null)}::text[],
+          ${changes.map((change) => change.correlationId)}::text[],
+          ${changes.map((change) => change.toolName)}::text[],
+          ${changes.map((change) => change.filePath)}::text[],
+          ${changes.map((change) => change.operation)}::text[],
+          ${changes.map((change) => change.linesAdded)}::int[],
+          ${changes.map((change) => change.linesRemoved)}::int[],
+          ${changes.map((change) => change.diff)}::text[],
+          ${changes.map((change) => change.redactions ?? 0)}::int[],
+          ${changes.map((change) => change.encryptionKeyId ?? null)}::text[]
+        ) AS c(session_id, message_id, call_id, correlation_id, tool_name, file_path, operation, lines_added, lines_removed, diff, redaction_count, encryption_key_id)
+        LEFT JOIN tool_executions t ON t.call_id = c.call_id
+      `;
+    },
+
+    async recordFailedWrite(failure) {
+      await sql`
+        INSERT INTO failed_writes (session_id, event_type, operation, payload, error_code, error_message)
+        VALUES (
+          ${failure.sessionId},
+          ${failure.eventType},
+          ${failure.operation},
+          ${json(failure.payload)},
+          ${failure.errorCode},
+          ${failure.errorMessage}
+        )
+      `;
+    },
+
+    async listFailedWrites(limit) {
+      const rows = await sql<
+        Array<{
+          id: string;
+          session_id: string | null;
+          event_type: string | null;
+          operation: string;
+          payload: unknown[];
+          error_code: string | null;
+          error_message: string;
+          attempts: number;
+        }>
+      >`
+        SELECT id, session_id, event_type, operation, payload, error_code, error_message, attempts
+        FROM failed_writes
+        WHERE resolved_at IS NULL
+        ORDER BY created_at
+        LIMIT ${limit}
+      `;
+      return rows.map(
+        (row): FailedWrite => ({
+          id: row.id,
+          sessionId: row.session_id,
+          eventType: row.event_type,
+          operation: row.operation,
+          payload: row.payload,
+          errorCode: row.error_code,
+          errorMessage: row.error_message,
+          attempts: row.attempts,
+        })
+      );
+    },
+
+    async resolveFailedWrite(id) {
+      await sql`
+        UPDATE failed_writes SET resolved_at = NOW() WHERE id = ${id}
+      `;
+    },
+
+    async recordFailedWriteAttempt(id, errorCode, errorMessage) {
+      await sql`
+        UPDATE failed_writes
+        SET
+          attempts = attempts + 1,
+          last_attempt_at = NOW(),
+          error_code = ${errorCode},
+          error_message = ${errorMessage}
+        WHERE id = ${id}
+      `;
+    },
+
+    async purge(rules) {
+      return sql.begin(async (tx) => {
+        // Instances that find the lock taken skip this run rather than queue.
+        const [lock] = await tx<Array<{ locked: boolean }>>`
+          SELECT pg_try_advisory_xact_lock(hashtext('opencode-database-plugin:retention')) AS locked
+        `;
+        if (!lock?.locked) {
+          return null;
+        }
+
+        const result: PurgeResult = {
+          expiredSessions: 0,
+          deletedSessions: 0,
+          toolResults: 0,
+        };
+
+        if (rules.deletedSessionDays > 0) {
+          const deleted = await tx`
+            DELETE FROM sessions
+            WHERE deleted_at < NOW() - make_interval(days => ${rules.deletedSessionDays})
+          `;
+          result.deletedSessions = deleted.count;
+        }
+
+        if (rules.sessionDays > 0) {
+          const expired = await tx`
+            DELETE FROM sessions
+            WHERE COALESCE(updated_at, created_at) < NOW() - make_interval(days => ${rules.sessionDays})
+          `;
+          result.expiredSessions = expired.count;
+        }
+
+        if (rules.toolResultDays > 0) {
+          const executions = await tx`
+            UPDATE tool_executions
+            SET result = NULL
+            WHERE result IS NOT NULL
+              AND created_at < NOW() - make_interval(days => ${rules.toolResultDays})
+          `;
+          // Encrypted part content is opaque, so only plain parts are stripped.
+          const parts = await tx`
+            UPDATE message_parts
+            SET content = content #- '{state,output}'
+            WHERE part_type = 'tool'
+              AND jsonb_typeof(content) = 'object'
+              AND content->'state' ? 'output'
+              AND created_at < NOW() - make_interval(days => ${rules.toolResultDays})
+          `;
+          result.toolResults = executions.count + parts.count;
+        }
+
+        return result;
+      }) as Promise<PurgeResult | null>;
+    },
+
+    async listStaleEncryptedRows(table, currentKeyId, limit) {
+      const columns = ENCRYPTED_COLUMNS[table];
+      const rows = await sql<Array<Record<string, unknown>>>`
+        SELECT id::text AS id, ${sql(columns)}
+        FROM ${sql(table)}
+        WHERE encryption_key_id IS NOT NULL
+          AND encryption_key_id <> ${currentKeyId}
+        LIMIT ${limit}
+      `;
+      return rows.map(
+        ({ id, ...values }): StaleEncryptedRow => ({ id: id as string, values })
+      );
+    },
+
+    async updateEncryptedRow(table, id, keyId, values) {
+      const columns = ENCRYPTED_COLUMNS[table].filter((column) => column in values);
+      await sql`
+        UPDATE ${sql(table)}
+        SET ${sql(values as Record<string, postgres.SerializableParameter>, columns)},
+          encryption_key_id = ${keyId}
+        WHERE id = ${id}
+      `;
+    },
+  };
+}
+
+/** Creates the session and assistant message a part belongs to if needed. */
+async function ensureMessage(sessionId: string, messageId: string): Promise<void> {
+  await sql`
+    INSERT INTO sessions (id, status, created_at)
+    VALUES (${sessionId}, 'active', NOW())
+    ON CONFLICT (id) DO NOTHING
+  `;
+  await sql`
+    INSERT INTO messages (id, session_id, role, created_at)
+    VALUES (${messageId}, ${sessionId}, 'assistant', NOW())
+    ON CONFLICT (id) DO NOTHING
+  `;
+}
+
+/**
+ * Writes a coalesced batch of text and reasoning parts from one session with
+ * a fixed number of statements, however many parts the batch holds.
+ */
+async function upsertStreamingParts(rows: PartRow[]): Promise<void> {
+  const sessionId = rows[0]!.sessionId;
+  const keyId = rows[0]!.encryptionKeyId ?? null;
+  const messageIds = [...new Set(rows.map((row) => row.messageId))];
+
+  // Encrypted text is compared by ciphertext length, which grows with the
+  // plaintext but can tie for texts a few bytes apart.
+  const messageText = new Map<string, string>();
+  for (const row of rows) {
+    const current = messageText.get(row.messageId);
+    if (row.type === "text" && row.text && (!current || current.length < row.text.length)) {
+      messageText.set(row.messageId, row.text);
+    }
+  }
+
+  // Insert in correct order: session -> message -> message_parts
+  await sql`
+    INSERT INTO sessions (id, status, created_at)
+    VALUES (${sessionId}, 'active', NOW())
+    ON CONFLICT (id) DO NOTHING
+  `;
+
+  await sql`
+    INSERT INTO messages (id, session_id, role, created_at)
+    SELECT id, ${sessionId}, 'assistant', NOW()
+    FROM unnest(${messageIds}::text[]) AS t(id)
+    ON CONFLICT (id) DO UPDATE SET
+      role = COALESCE(messages.role, 'assistant')
+  `;
+
+  await sql`
+    INSERT INTO message_parts (id, message_id, part_type, text, content, redaction_count, encryption_key_id, created_at)
+    SELECT id, message_id, part_type, text, content::jsonb, redaction_count, encryption_key_id, NOW()
+    FROM unnest(
+      ${rows.map((row) => row.id)}::text[],
+      ${rows.map((row) => row.messageId)}::text[],
+      ${rows.map((row) => row.type)}::text[],
+      ${rows.map((row) => row.text)}::text[],
+      ${rows.map((row) => JSON.stringify(row.content))}::text[],
+      ${rows.map((row) => row.redactions ?? 0)}::int[],
+      ${rows.map((row) => row.encryptionKeyId ?? null)}::text[]
+    ) AS t(id, message_id, part_type, text, content, redaction_count, encryption_key_id)
+    ON CONFLICT (id) DO UPDATE SET
+      text = EXCLUDED.text,
+      content = EXCLUDED.content,
+      redaction_count = EXCLUDED.redaction_count,
+      encryption_key_id = EXCLUDED.encryption_key_id
+    WHERE message_parts.text IS NULL
+      OR LENGTH(message_parts.text) < LENGTH(EXCLUDED.text)
+      OR (
+        EXCLUDED.encryption_key_id IS NOT NULL
+        AND LENGTH(message_parts.text) = LENGTH(EXCLUDED.text)
+      )
+  `;
+
+  if (messageText.size > 0) {
+    await sql`
+      UPDATE messages
+      SET
+        text = t.text,
+        encryption_key_id = COALESCE(${keyId}::text, messages.encryption_key_id)
+      FROM unnest(
+        ${[...messageText.keys()]}::text[],
+        ${[...messageText.values()]}::text[]
+      ) AS t(id, text)
+      WHERE messages.id = t.id
+        AND (
+          messages.text IS NULL
+          OR LENGTH(messages.text) < LENGTH(t.text)
+          OR (
+            ${keyId}::text IS NOT NULL
+            AND LENGTH(messages.text) = LENGTH(t.text)
+          )
+        )
+    `;
+  }
+}
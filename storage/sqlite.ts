@@ -0,0 +1,1027 @@
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import { runSqliteMigrations } from "../migrations";
+import {
+  ENCRYPTED_COLUMNS,
+  type FailedWrite,
+  type PartRow,
+  type PurgeResult,
+  type StaleEncryptedRow,
+  type Storage,
+} from "./types";
+
+const NOW = "strftime('%Y-%m-%dT%H:%M:%fZ', 'now')";
+
+function toJson(value: unknown): string | null {
+  return value === undefined || value === null ? null : JSON.stringify(value);
+}
+
+/** Encrypted columns that hold JSON rather than plain text. */
+const JSON_COLUMNS = new Set(["content", "args", "result", "patterns"]);
+
+/** Creates the session and assistant message a part belongs to if needed. */
+function ensureMessage(conn: Database, sessionId: string, messageId: string): void {
+  conn.run(
+    `INSERT INTO sessions (id, status) VALUES (?, 'active')
+     ON CONFLICT (id) DO NOTHING`,
+    [sessionId]
+  );
+  conn.run(
+    `INSERT INTO messages (id, session_id, role) VALUES (?, ?, 'assistant')
+     ON CONFLICT (id) DO NOTHING`,
+    [messageId, sessionId]
+  );
+}
+
+export function createSqliteStorage(path: string): Storage {
+  let db: Database | undefined;
+
+  function open(): Database {
+    if (!db) {
+      if (path !== ":memory:") {
+        mkdirSync(dirname(path), { recursive: true });
+      }
+      db = new Database(path, { create: true });
+      db.run("PRAGMA journal_mode = WAL");
+      db.run("PRAGMA foreign_keys = ON");
+      db.run("PRAGMA busy_timeout = 5000");
+    }
+    return db;
+  }
+
+  function ensureSessionAndMessage(
+    sessionId: string,
+    messageIds: string[]
+  ): void {
+    const conn = open();
+    // Insert in correct order: session -> message -> message_parts
+    conn.run(
+      `INSERT INTO sessions (id, status) VALUES (?, 'active')
+       ON CONFLICT (id) DO NOTHING`,
+      [sessionId]
+    );
+    const insertMessage = conn.prepare(
+      `INSERT INTO messages (id, session_id, role) VALUES (?, ?, 'assistant')
+       ON CONFLICT (id) DO UPDATE SET
+         role = COALESCE(messages.role, 'assistant')`
+    );
+    for (const messageId of messageIds) {
+      insertMessage.run(messageId, sessionId);
+    }
+  }
+
+  function upsertStreamingParts(rows: PartRow[]): void {
+    const conn = open();
+    const sessionId = rows[0]!.sessionId;
+
+    conn.transaction(() => {
+      ensureSessionAndMessage(sessionId, [
+        ...new Set(rows.map((row) => row.messageId)),
+      ]);
+
+      const upsertPart = conn.prepare(
+        `INSERT INTO message_parts (id, message_id, part_type, text, content, redaction_count, encryption_key_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           text = excluded.text,
+           content = excluded.content,
+           redaction_count = excluded.redaction_count,
+           encryption_key_id = excluded.encryption_key_id
+         WHERE message_parts.text IS NULL
+           OR LENGTH(message_parts.text) < LENGTH(excluded.text)
+           OR (
+             excluded.encryption_key_id IS NOT NULL
+             AND LENGTH(message_parts.text) = LENGTH(excluded.text)
+           )`
+      );
+      // Encrypted text is compared by ciphertext length, which grows with the
+      // plaintext but can tie for texts a few bytes apart.
+      const updateMessageText = conn.prepare(
+        `UPDATE messages
+         SET text = ?1, encryption_key_id = COALESCE(?3, encryption_key_id)
+         WHERE id = ?2
+           AND (
+             text IS NULL
+             OR LENGTH(text) < LENGTH(?1)
+             OR (?3 IS NOT NULL AND LENGTH(text) = LENGTH(?1))
+           )`
+      );
+
+      for (const row of rows) {
+        upsertPart.run(
+          row.id,
+          row.messageId,
+          row.type,
+          row.text,
+          toJson(row.content),
+          row.redactions ?? 0,
+          row.encryptionKeyId ?? null
+        );
+        if (row.type === "text" && row.text) {
+          updateMessageText.run(row.text, row.messageId, row.encryptionKeyId ?? null);
+        }
+      }
+    })();
+  }
+
+  return {
+    backend: "sqlite",
+
+    async connect() {
+      try {
+        open().query("SELECT 1").get();
+        return true;
+      } catch (error) {
+        console.error("[database] SQLite open failed:", error);
+        return false;
+      }
+    },
+
+    async migrate() {
+      return runSqliteMigrations(open());
+    },
+
+    async close() {
+      db?.close();
+      db = undefined;
+    },
+
+    async upsertSession(session) {
+      const attribution = session.attribution;
+      const conn = open();
+      conn.transaction(() => {
+        conn.run(
+          `INSERT INTO sessions (id, title, parent_id, root_session_id, project_id, directory, os_user, hostname, member_id, opencode_version, plugin_version, status)
+           VALUES (
+             ?1, ?2, ?3,
+             COALESCE((SELECT COALESCE(root_session_id, id) FROM sessions WHERE id = ?3), ?1),
+             ?4, ?5, ?6, ?7, ?8, ?9, ?10, 'created'
+           )
+           ON CONFLICT (id) DO UPDATE SET
+             title = COALESCE(?2, sessions.title),
+             parent_id = COALESCE(?3, sessions.parent_id),
+             root_session_id = CASE
+               WHEN sessions.parent_id IS NULL AND excluded.parent_id IS NOT NULL
+                 THEN excluded.root_session_id
+               ELSE COALESCE(sessions.root_session_id, excluded.root_session_id)
+             END,
+             project_id = COALESCE(?4, sessions.project_id),
+             directory = COALESCE(?5, sessions.directory),
+             os_user = COALESCE(sessions.os_user, ?6),
+             hostname = COALESCE(sessions.hostname, ?7),
+             member_id = COALESCE(sessions.member_id, ?8),
+             opencode_version = COALESCE(sessions.opencode_version, ?9),
+             plugin_version = COALESCE(sessions.plugin_version, ?10)`,
+          [
+            session.id,
+            session.title,
+            session.parentId,
+            session.projectId,
+            session.directory,
+            attribution?.osUser ?? null,
+            attribution?.hostname ?? null,
+            attribution?.memberId ?? null,
+            attribution?.opencodeVersion ?? null,
+            attribution?.pluginVersion ?? null,
+          ]
+        );
+        // Subagent sessions can be written before their parent. When the
+        // parent arrives, its children and their trees move under its root.
+        conn.run(
+          `UPDATE sessions
+           SET root_session_id = upserted.root_session_id
+           FROM (SELECT id, root_session_id FROM sessions WHERE id = ?1) upserted
+           WHERE sessions.id <> upserted.id
+             AND sessions.root_session_id <> upserted.root_session_id
+             AND (
+               sessions.root_session_id = upserted.id
+               OR sessions.root_session_id IN (
+                 SELECT children.id FROM sessions children WHERE children.parent_id = upserted.id
+               )
+             )`,
+          [session.id]
+        );
+      })();
+    },
+
+    async updateSession(update) {
+      open().run(
+        `UPDATE sessions
+         SET title = COALESCE(?, title),
+             share_url = COALESCE(?, share_url)
+         WHERE id = ?`,
+        [update.title, update.shareUrl, update.id]
+      );
+    },
+
+    async markSessionActive(sessionId) {
+      open().run(
+        `UPDATE sessions SET status = 'active', updated_at = ${NOW} WHERE id = ?`,
+        [sessionId]
+      );
+    },
+
+    async markSessionIdle(sessionId) {
+      open().run(
+        `UPDATE sessions SET status = 'idle', updated_at = ${NOW} WHERE id = ?`,
+        [sessionId]
+      );
+    },
+
+    async markSessionDeleted(sessionId) {
+      open().run(
+        `UPDATE sessions SET deleted_at = ${NOW}, status = 'deleted' WHERE id = ?`,
+        [sessionId]
+      );
+    },
+
+    async hardDeleteSession(sessionId) {
+      const conn = open();
+      conn.transaction(() => {
+        const ids = conn
+          .query<{ id: string }, [string]>(
+            `WITH RECURSIVE tree(id) AS (
+               SELECT ?
+               UNION
+               SELECT sessions.id FROM sessions JOIN tree ON sessions.parent_id = tree.id
+             )
+             SELECT id FROM tree`
+          )
+          .all(sessionId)
+          .map((row) => row.id);
+
+        const deleteSession = conn.prepare("DELETE FROM sessions WHERE id = ?");
+        const deleteFailedWrites = conn.prepare(
+          "DELETE FROM failed_writes WHERE session_id = ?"
+        );
+        const addTombstone = conn.prepare(
+          `INSERT INTO session_tombstones (session_id) VALUES (?)
+           ON CONFLICT (session_id) DO NOTHING`
+        );
+        for (const id of ids) {
+          deleteSession.run(id);
+          deleteFailedWrites.run(id);
+          addTombstone.run(id);
+        }
+      })();
+    },
+
+    async recordSessionError(error) {
+      const conn = open();
+      conn.transaction(() => {
+        conn.run(
+          `INSERT INTO session_errors (session_id, error_type, error_message, error_data, redaction_count)
+           VALUES (?, ?, ?, ?, ?)`,
+          [
+            error.sessionId,
+            error.errorType,
+            error.errorMessage,
+            toJson(error.errorData),
+            error.redactions ?? 0,
+          ]
+        );
+        conn.run("UPDATE sessions SET status = 'error' WHERE id = ?", [
+          error.sessionId,
+        ]);
+      })();
+    },
+
+    async compactSession(sessionId) {
+      const conn = open();
+      conn.transaction(() => {
+        conn.run(
+          `INSERT INTO compactions (
+             session_id,
+             context_tokens_before,
+             cumulative_input_tokens,
+             cumulative_output_tokens,
+             cumulative_cache_read,
+             cumulative_cache_write,
+             cumulative_reasoning,
+             cumulative_cost
+           )
+           SELECT id,
+                  COALESCE(context_tokens, 0),
+                  COALESCE(input_tokens, 0),
+                  COALESCE(output_tokens, 0),
+                  COALESCE(cache_read_tokens, 0),
+                  COALESCE(cache_write_tokens, 0),
+                  COALESCE(reasoning_tokens, 0),
+                  COALESCE(estimated_cost, 0)
+           FROM sessions WHERE id = ?`,
+          [sessionId]
+        );
+        conn.run(
+          `UPDATE sessions
+           SET
+             status = 'compacted',
+             peak_context_tokens = MAX(peak_context_tokens, context_tokens),
+             context_tokens = 0,
+             compaction_count = compaction_count + 1
+           WHERE id = ?`,
+          [sessionId]
+        );
+      })();
+    },
+
+    async recordMessageUsage(usage) {
+      const { tokens } = usage;
+      const contextSize = tokens.input + tokens.cacheRead;
+
+      const conn = open();
+      conn.transaction(() => {
+        // Sessions first, while the message still holds its previous values.
+        conn.run(
+          `UPDATE sessions
+           SET
+             input_tokens = sessions.input_tokens + ?1 - COALESCE(m.input_tokens, 0),
+             output_tokens = sessions.output_tokens + ?2 - COALESCE(m.output_tokens, 0),
+             reasoning_tokens = sessions.reasoning_tokens + ?3 - COALESCE(m.reasoning_tokens, 0),
+             cache_read_tokens = sessions.cache_read_tokens + ?4 - COALESCE(m.cache_read_tokens, 0),
+             cache_write_tokens = sessions.cache_write_tokens + ?5 - COALESCE(m.cache_write_tokens, 0),
+             estimated_cost = sessions.estimated_cost + ?6 - COALESCE(m.cost, 0),
+             context_tokens = ?7,
+             peak_context_tokens = MAX(sessions.peak_context_tokens, ?7),
+             model_provider = COALESCE(?8, sessions.model_provider),
+             model_id = COALESCE(?9, sessions.model_id)
+           FROM messages m
+           WHERE m.id = ?10 AND sessions.id = m.session_id`,
+          [
+            tokens.input,
+            tokens.output,
+            tokens.reasoning,
+            tokens.cacheRead,
+            tokens.cacheWrite,
+            usage.cost,
+            contextSize,
+            usage.modelProvider,
+            usage.modelId,
+            usage.messageId,
+          ]
+        );
+        conn.run(
+          `UPDATE messages
+           SET input_tokens = ?, output_tokens = ?, reasoning_tokens = ?,
+               cache_read_tokens = ?, cache_write_tokens = ?, cost = ?,
+               model_provider = COALESCE(?, model_provider),
+               model_id = COALESCE(?, model_id)
+           WHERE id = ?`,
+          [
+            tokens.input,
+            tokens.output,
+            tokens.reasoning,
+            tokens.cacheRead,
+            tokens.cacheWrite,
+            usage.cost,
+            usage.modelProvider,
+            usage.modelId,
+            usage.messageId,
+          ]
+        );
+        conn.run(
+          `UPDATE messages
+           SET computed_cost = v.cost
+           FROM message_cost_view v
+           WHERE messages.id = ? AND v.message_id = messages.id`,
+          [usage.messageId]
+        );
+        conn.run(
+          `UPDATE sessions
+           SET computed_cost = (
+             SELECT SUM(computed_cost) FROM messages WHERE session_id = sessions.id
+           )
+           WHERE id = (SELECT session_id FROM messages WHERE id = ?)`,
+          [usage.messageId]
+        );
+      })();
+    },
+
+    async recomputeCosts() {
+      const conn = open();
+      return conn.transaction(() => {
+        // Counted with RETURNING, as changes() includes trigger updates.
+        const repriced = conn
+          .query(
+            `UPDATE messages
+             SET computed_cost = v.cost
+             FROM message_cost_view v
+             WHERE v.message_id = messages.id
+             RETURNING 1`
+          )
+          .all().length;
+        conn.run(
+          `UPDATE sessions
+           SET computed_cost = totals.computed_cost
+           FROM (
+             SELECT session_id, SUM(computed_cost) AS computed_cost
+             FROM messages
+             WHERE computed_cost IS NOT NULL
+             GROUP BY session_id
+           ) totals
+           WHERE sessions.id = totals.session_id`
+        );
+        return repriced;
+      })();
+    },
+
+    async upsertMessage(message) {
+      const conn = open();
+      conn.transaction(() => {
+        conn.run(
+          `INSERT INTO sessions (id, status) VALUES (?, 'active')
+           ON CONFLICT (id) DO UPDATE SET updated_at = ${NOW}`,
+          [message.sessionId]
+        );
+        conn.run(
+          `INSERT INTO messages (id, session_id, role, model_provider, model_id, text, summary, content, system_prompt, redaction_count, encryption_key_id)
+           VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11)
+           ON CONFLICT (id) DO UPDATE SET
+             role = excluded.role,
+             model_provider = COALESCE(excluded.model_provider, messages.model_provider),
+             model_id = COALESCE(excluded.model_id, messages.model_id),
+             text = COALESCE(excluded.text, messages.text),
+             summary = COALESCE(excluded.summary, messages.summary),
+             content = COALESCE(excluded.content, messages.content),
+             system_prompt = COALESCE(excluded.system_prompt, messages.system_prompt),
+             redaction_count = MAX(excluded.redaction_count, messages.redaction_count),
+             encryption_key_id = COALESCE(excluded.encryption_key_id, messages.encryption_key_id)`,
+          [
+            message.id,
+            message.sessionId,
+            message.role,
+            message.modelProvider,
+            message.modelId,
+            message.text,
+            message.summary,
+            toJson(message.content),
+            message.systemPrompt,
+            message.redactions ?? 0,
+            message.encryptionKeyId ?? null,
+          ]
+        );
+      })();
+    },
+
+    async removeMessage(messageId) {
+      open().run("DELETE FROM messages WHERE id = ?", [messageId]);
+    },
+
+    async upsertPart(part) {
+      const conn = open();
+      const statusPriority: Record<string, number> = {
+        pending: 1,
+        running: 2,
+        completed: 3,
+        error: 3,
+      };
+      const currentPriority = statusPriority[part.status || "pending"] || 0;
+      const content = toJson(part.content);
+
+      conn.transaction(() => {
+        ensureSessionAndMessage(part.sessionId, [part.messageId]);
+        conn.run(
+          `INSERT INTO message_parts (id, message_id, part_type, tool_name, text, status, content, redaction_count, encryption_key_id)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT (id) DO NOTHING`,
+          [
+            part.id,
+            part.messageId,
+            part.type,
+            part.toolName,
+            part.text,
+            part.status,
+            content,
+            part.redactions ?? 0,
+            part.encryptionKeyId ?? null,
+          ]
+        );
+        conn.run(
+          `UPDATE message_parts
+           SET
+             tool_name = COALESCE(?1, tool_name),
+             text = COALESCE(?2, text),
+             status = COALESCE(?8, status),
+             content = ?3,
+             redaction_count = ?6,
+             encryption_key_id = ?7
+           WHERE id = ?4
+             AND ?5 >= COALESCE(
+               CASE status
+                 WHEN 'pending' THEN 1
+                 WHEN 'running' THEN 2
+                 WHEN 'completed' THEN 3
+                 WHEN 'error' THEN 3
+                 ELSE 0
+               END, 0
+             )`,
+          [
+            part.toolName,
+            part.text,
+            content,
+            part.id,
+            currentPriority,
+            part.redactions ?? 0,
+            part.encryptionKeyId ?? null,
+            part.status,
+          ]
+        );
+      })();
+    },
+
+    async upsertStreamingParts(parts) {
+      upsertStreamingParts(parts);
+    },
+
+    async removePart(partId) {
+      open().run("DELETE FROM message_parts WHERE id = ?", [partId]);
+    },
+
+    async recordStepStart(step) {
+      const conn = open();
+      conn.transaction(() => {
+        ensureMessage(conn, step.sessionId, step.messageId);
+        conn.run(
+          `INSERT INTO steps (id, session_id, message_id, step_index, started_at)
+           VALUES (?, ?, ?, ?, ?)
+           ON CONFLICT (id) DO NOTHING`,
+          [
+            step.id,
+            step.sessionId,
+            step.messageId,
+            step.stepIndex,
+            step.startedAt?.toISOString() ?? null,
+          ]
+        );
+      })();
+    },
+
+    async recordStepFinish(step) {
+      const { tokens } = step;
+      const conn = open();
+      conn.transaction(() => {
+        ensureMessage(conn, step.sessionId, step.messageId);
+        conn.run(
+          `INSERT INTO steps (
+             id, session_id, message_id, step_index, started_at, finish_part_id,
+             finished_at, duration_ms, finish_reason, input_tokens, output_tokens,
+             reasoning_tokens, cache_read_tokens, cache_write_tokens, cost,
+             tool_calls, tool_call_count
+           )
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT (id) DO UPDATE SET
+             finish_part_id = excluded.finish_part_id,
+             finished_at = excluded.finished_at,
+             duration_ms = excluded.duration_ms,
+             finish_reason = excluded.finish_reason,
+             input_tokens = excluded.input_tokens,
+             output_tokens = excluded.output_tokens,
+             reasoning_tokens = excluded.reasoning_tokens,
+             cache_read_tokens = excluded.cache_read_tokens,
+             cache_write_tokens = excluded.cache_write_tokens,
+             cost = excluded.cost,
+             tool_calls = excluded.tool_calls,
+             tool_call_count = excluded.tool_call_count`,
+          [
+            step.id,
+            step.sessionId,
+            step.messageId,
+            step.stepIndex,
+            step.startedAt?.toISOString() ?? null,
+            step.finishPartId,
+            step.finishedAt.toISOString(),
+            step.durationMs,
+            step.reason,
+            tokens.input,
+            tokens.output,
+            tokens.reasoning,
+            tokens.cacheRead,
+            tokens.cacheWrite,
+            step.cost,
+            JSON.stringify(step.toolCalls),
+            step.toolCalls.length,
+          ]
+        );
+      })();
+    },
+
+    async recordCommand(command) {
+      open().run(
+        `INSERT INTO commands (session_id, command_name, command_args, redaction_count)
+         VALUES (?, ?, ?, ?)`,
+        [command.sessionId, command.name, command.args, command.redactions ?? 0]
+      );
+    },
+
+    async recordPermissionRequest(request) {
+      const conn = open();
+      conn.transaction(() => {
+        conn.run(
+          `INSERT INTO sessions (id, status) VALUES (?, 'active')
+           ON CONFLICT (id) DO NOTHING`,
+          [request.sessionId]
+        );
+        conn.run(
+          `INSERT INTO permissions (id, session_id, message_id, call_id, permission_type, patterns, title, requested_at, redaction_count, encryption_key_id)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT (id) DO UPDATE SET
+             message_id = excluded.message_id,
+             call_id = excluded.call_id,
+             permission_type = excluded.permission_type,
+             patterns = excluded.patterns,
+             title = excluded.title,
+             requested_at = excluded.requested_at,
+             latency_ms = CAST(ROUND((julianday(permissions.responded_at) - julianday(excluded.requested_at)) * 86400000) AS INTEGER),
+             redaction_count = excluded.redaction_count,
+             encryption_key_id = excluded.encryption_key_id`,
+          [
+            request.id,
+            request.sessionId,
+            request.messageId,
+            request.callId,
+            request.type,
+            toJson(request.patterns),
+            request.title,
+            request.requestedAt.toISOString(),
+            request.redactions ?? 0,
+            request.encryptionKeyId ?? null,
+          ]
+        );
+      })();
+    },
+
+    async recordPermissionReply(reply) {
+      const conn = open();
+      conn.transaction(() => {
+        conn.run(
+          `INSERT INTO sessions (id, status) VALUES (?, 'active')
+           ON CONFLICT (id) DO NOTHING`,
+          [reply.sessionId]
+        );
+        conn.run(
+          `INSERT INTO permissions (id, session_id, responded_at, response)
+           VALUES (?, ?, ?, ?)
+           ON CONFLICT (id) DO UPDATE SET
+             responded_at = excluded.responded_at,
+             response = excluded.response,
+             latency_ms = CAST(ROUND((julianday(excluded.responded_at) - julianday(permissions.requested_at)) * 86400000) AS INTEGER)`,
+          [reply.id, reply.sessionId, reply.respondedAt.toISOString(), reply.response]
+        );
+      })();
+    },
+
+    async recordGitSnapshot(snapshot) {
+      const conn = open();
+      conn.transaction(() => {
+        conn.run(
+          `INSERT INTO sessions (id, status) VALUES (?, 'active')
+           ON CONFLICT (id) DO NOTHING`,
+          [snapshot.sessionId]
+        );
+        conn.run(
+          `INSERT INTO git_snapshots (session_id, message_id, event_type, branch, commit_sha, remote_url, dirty_files)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [
+            snapshot.sessionId,
+            snapshot.messageId,
+            snapshot.eventType,
+            snapshot.branch,
+            snapshot.commitSha,
+            snapshot.remoteUrl,
+            snapshot.dirtyFiles,
+          ]
+        );
+      })();
+    },
+
+    async recordToolStart(start) {
+      open().run(
+        `INSERT INTO tool_executions (correlation_id, session_id, call_id, message_id, part_id, tool_name, args, started_at, redaction_count, encryption_key_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (call_id) DO NOTHING`,
+        [
+          start.correlationId,
+          start.sessionId,
+          start.callId ?? null,
+          start.messageId ?? null,
+          start.partId ?? null,
+          start.toolName,
+          toJson(start.args),
+          start.startedAt.toISOString(),
+          start.redactions ?? 0,
+          start.encryptionKeyId ?? null,
+        ]
+      );
+    },
+
+    async recordToolEnd(end) {
+      open().run(
+        `UPDATE tool_executions
+         SET result = ?, completed_at = ?, duration_ms = ?, success = 1,
+             redaction_count = redaction_count + ?,
+             encryption_key_id = COALESCE(?, encryption_key_id),
+             message_id = COALESCE(message_id, ?),
+             part_id = COALESCE(part_id, ?)
+         WHERE call_id = ? OR (? IS NULL AND correlation_id = ?)`,
+        [
+          toJson(end.result),
+          end.completedAt.toISOString(),
+          end.durationMs,
+          end.redactions ?? 0,
+          end.encryptionKeyId ?? null,
+          end.messageId ?? null,
+          end.partId ?? null,
+          end.callId ?? null,
+          end.callId ?? null,
+          end.correlationId,
+        ]
+      );
+    },
+
+    async recordToolExecution(execution) {
+      open().run(
+        `INSERT INTO tool_executions (correlation_id, session_id, call_id, message_id, part_id, tool_name, args, result, completed_at, success, redaction_count, encryption_key_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?)
+         ON CONFLICT (call_id) DO UPDATE SET
+           result = excluded.result,
+           completed_at = excluded.completed_at,
+           duration_ms = CAST(ROUND((julianday(excluded.completed_at) - julianday(tool_executions.started_at)) * 86400000) AS INTEGER),
+           success = 1,
+           redaction_count = tool_executions.redaction_count + excluded.redaction_count,
+           encryption_key_id = COALESCE(excluded.encryption_key_id, tool_executions.encryption_key_id),
+           message_id = COALESCE(tool_executions.message_id, excluded.message_id),
+           part_id = COALESCE(tool_executions.part_id, excluded.part_id)`,
+        [
+          execution.correlationId,
+          execution.sessionId,
+          execution.callId ?? null,
+          execution.messageId ?? null,
+          execution.partId ?? null,
+          execution.toolName,
+          toJson(execution.args),
+          toJson(execution.result),
+          execution.completedAt.toISOString(),
+          execution.redactions ?? 0,
+          execution.encryptionKeyId ?? null,
+        ]
+      );
+    },
+
+    async linkToolPart(callId, messageId, partId) {
+      open().run(
+        `UPDATE tool_executions SET message_id = ?, part_id = ?
+         WHERE call_id = ? AND part_id IS NULL`,
+        [messageId, partId, callId]
+      );
+    },
+
+    async recordToolFailure(failure) {
+      open().run(
+        `INSERT INTO tool_executions (correlation_id, session_id, call_id, message_id, part_id, tool_name, completed_at, success, error, redaction_count)
+         VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?, ?)
+         ON CONFLICT (call_id) DO UPDATE SET
+           completed_at = COALESCE(tool_executions.completed_at, excluded.completed_at),
+           duration_ms = COALESCE(
+             tool_executions.duration_ms,
+             CAST(ROUND((julianday(excluded.completed_at) - julianday(tool_executions.started_at)) * 86400000) AS INTEGER)
+           ),
+           success = 0,
+           error = excluded.error,
+           redaction_count = tool_executions.redaction_count + excluded.redaction_count,
+           message_id = COALESCE(tool_executions.message_id, excluded.message_id),
+           part_id = COALESCE(tool_executions.part_id, excluded.part_id)`,
+        [
+          failure.correlationId,
+          failure.sessionId,
+          failure.callId,
+          failure.messageId ?? null,
+          failure.partId ?? null,
+          failure.toolName,
+          failure.completedAt.toISOString(),
+          failure.error,
+          failure.redactions ?? 0,
+        ]
+      );
+    },
+
+    async attachToolOutput(partId, output) {
+      open().run(
+        `UPDATE message_parts
+         SET content = json_set(
+           COALESCE(content, '{"state":{}}'),
+           '$.state.output',
+           json(?)
+         )
+         WHERE id = ?
+           AND json_extract(content, '$.state.output') IS NULL`,
+        [JSON.stringify(output), partId]
+      );
+    },
+
+    async recordFileChanges(changes) {
+      if (changes.length === 0) {
+        return;
+      }
+
+      const conn = open();
+      const insert = conn.prepare(
+        `INSERT INTO file_changes (session_id, message_id, correlation_id, tool_name, file_path, operation, lines_added, lines_removed, diff, redaction_count, encryption_key_id)
+         VALUES (
+           ?, ?,
+           COALESCE((SELECT correlation_id FROM tool_executions WHERE call_id = ?), ?),
+           ?, ?, ?, ?, ?, ?, ?, ?
+         )`
+      );
+      conn.transaction(() => {
+        conn.run(
+          `INSERT INTO sessions (id, status) VALUES (?, 'active')
+           ON CONFLICT (id) DO NOTHING`,
+          [changes[0]!.sessionId]
+        );
+        for (const change of changes) {
+          insert.run(
+            change.sessionId,
+            change.messageId,
+            change.callId ?? null,
+            change.correlationId,
+            change.toolName,
+            change.filePath,
+            change.operation,
+            change.linesAdded,
+            change.linesRemoved,
+            change.diff,
+            change.redactions ?? 0,
+            change.encryptionKeyId ?? null
+          );
+        }
+      })();
+    },
+
+    async recordFailedWrite(failure) {
+      open().run(
+        `INSERT INTO failed_writes (session_id, event_type, operation, payload, error_code, error_message)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          failure.sessionId,
+          failure.eventType,
+          failure.operation,
+          JSON.stringify(failure.payload),
+          failure.errorCode,
+          failure.errorMessage,
+        ]
+      );
+    },
+
+    async listFailedWrites(limit) {
+      const rows = open()
+        .query<
+          {
+            id: string;
+            session_id: string | null;
+            event_type: string | null;
+            operation: string;
+            payload: string;
+            error_code: string | null;
+            error_message: string;
+            attempts: number;
+          },
+          [number]
+        >(
+          `SELECT id, session_id, event_type, operation, payload, error_code, error_message, attempts
+           FROM failed_writes
+           WHERE resolved_at IS NULL
+           ORDER BY created_at
+           LIMIT ?`
+        )
+        .all(limit);
+      return rows.map(
+        (row): FailedWrite => ({
+          id: row.id,
+          sessionId: row.session_id,
+          eventType: row.event_type,
+          operation: row.operation,
+          payload: JSON.parse(row.payload) as unknown[],
+          errorCode: row.error_code,
+          errorMessage: row.error_message,
+          attempts: row.attempts,
+        })
+      );
+    },
+
+    async resolveFailedWrite(id) {
+      open().run(
+        `UPDATE failed_writes SET resolved_at = ${NOW} WHERE id = ?`,
+        [id]
+      );
+    },
+
+    async recordFailedWriteAttempt(id, errorCode, errorMessage) {
+      open().run(
+        `UPDATE failed_writes
+         SET
+           attempts = attempts + 1,
+           last_attempt_at = ${NOW},
+           error_code = ?,
+           error_message = ?
+         WHERE id = ?`,
+        [errorCode, errorMessage, id]
+      );
+    },
+
+    async purge(rules) {
+      const conn = open();
+      const cutoff = `strftime('%Y-%m-%dT%H:%M:%fZ', 'now', ?)`;
+      const daysAgo = (days: number) => `-${days} days`;
+      // Counted with RETURNING, since changes() also counts the rows touched
+      // by the updated_at triggers and cascades.
+      const count = (query: string, days: number) =>
+        conn.query(`${query} RETURNING 1`).all(daysAgo(days)).length;
+
+      // IMMEDIATE takes the write lock up front, so concurrent purges queue
+      // behind it instead of interleaving.
+      return conn
+        .transaction((): PurgeResult => {
+          const result: PurgeResult = {
+            expiredSessions: 0,
+            deletedSessions: 0,
+            toolResults: 0,
+          };
+
+          if (rules.deletedSessionDays > 0) {
+            result.deletedSessions = count(
+              `DELETE FROM sessions WHERE deleted_at < ${cutoff}`,
+              rules.deletedSessionDays
+            );
+          }
+
+          if (rules.sessionDays > 0) {
+            result.expiredSessions = count(
+              `DELETE FROM sessions WHERE COALESCE(updated_at, created_at) < ${cutoff}`,
+              rules.sessionDays
+            );
+          }
+
+          if (rules.toolResultDays > 0) {
+            const executions = count(
+              `UPDATE tool_executions SET result = NULL
+               WHERE result IS NOT NULL AND created_at < ${cutoff}`,
+              rules.toolResultDays
+            );
+            // Encrypted part content is opaque, so only plain parts are stripped.
+            const parts = count(
+              `UPDATE message_parts
+               SET content = json_remove(content, '$.state.output')
+               WHERE part_type = 'tool'
+                 AND json_type(content, '$.state.output') IS NOT NULL
+                 AND created_at < ${cutoff}`,
+              rules.toolResultDays
+            );
+            result.toolResults = executions + parts;
+          }
+
+          return result;
+        })
+        .immediate();
+    },
+
+    async listStaleEncryptedRows(table, currentKeyId, limit) {
+      const columns = ENCRYPTED_COLUMNS[table];
+      const rows = open()
+        .query<Record<string, string | null>, [string, number]>(
+          `SELECT id, ${columns.join(", ")}
+           FROM ${table}
+           WHERE encryption_key_id IS NOT NULL
+             AND encryption_key_id <> ?
+           LIMIT ?`
+        )
+        .all(currentKeyId, limit);
+      return rows.map(({ id, ...stored }): StaleEncryptedRow => {
+        const values: Record<string, unknown> = {};
+        for (const [column, value] of Object.entries(stored)) {
+          values[column] =
+            JSON_COLUMNS.has(column) && value !== null ? JSON.parse(value) : value;
+        }
+        return { id: id!, values };
+      });
+    },
+
+    async updateEncryptedRow(table, id, keyId, values) {
+      const columns = ENCRYPTED_COLUMNS[table].filter((column) => column in values);
+      open().run(
+        `UPDATE ${table}
+         SET ${columns.map((column) => `${column} = ?`).join(", ")},
+             encryption_key_id = ?
+         WHERE id = ?`,
+        [
+          ...columns.map((column) =>
+            JSON_COLUMNS.has(column)
+              ? toJson(values[column])
+              : ((values[column] ?? null) as string | null)
+          ),
+          keyId,
+          id,
+        ]
+      );
+    },
+  };
+}
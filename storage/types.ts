@@ -0,0 +1,369 @@
+import type { SessionAttribution } from "../attribution";
+import type { FileChange } from "../file-changes";
+import type { MigrationResult } from "../migrations";
+
+export interface SessionRow {
+  id: string;
+  title: string | null;
+  parentId: string | null;
+  projectId: string | null;
+  directory: string | null;
+  /** Set when the session is created; later upserts keep what is stored. */
+  attribution?: SessionAttribution;
+}
+
+export interface SessionUpdate {
+  id: string;
+  title: string | null;
+  shareUrl: string | null;
+}
+
+/** Rows whose table records how many secrets were redacted from them. */
+export interface RedactedRow {
+  redactions?: number;
+}
+
+/** Rows whose content columns may be encrypted, and with which key. */
+export interface EncryptableRow {
+  encryptionKeyId?: string | null;
+}
+
+/** Columns holding conversation content, which encryption applies to. */
+export const ENCRYPTED_COLUMNS = {
+  messages: ["text", "content", "system_prompt"],
+  message_parts: ["text", "content"],
+  tool_executions: ["args", "result"],
+  file_changes: ["diff"],
+  permissions: ["title", "patterns"],
+} as const;
+
+export type EncryptedTable = keyof typeof ENCRYPTED_COLUMNS;
+
+/** A row encrypted with a key other than the current one. */
+export interface StaleEncryptedRow {
+  id: string;
+  /** Encrypted values by column name. */
+  values: Record<string, unknown>;
+}
+
+export interface SessionErrorRow extends RedactedRow {
+  sessionId: string;
+  errorType: string;
+  errorMessage: string | null;
+  errorData: unknown;
+}
+
+export interface MessageRow extends RedactedRow, EncryptableRow {
+  id: string;
+  sessionId: string;
+  role: string;
+  modelProvider: string | null;
+  modelId: string | null;
+  text: string | null;
+  summary: string | null;
+  content: unknown;
+  systemPrompt: string | null;
+}
+
+export interface TokenUsage {
+  input: number;
+  output: number;
+  reasoning: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+/** The latest token counts and cost reported for an assistant message. */
+export interface MessageUsage {
+  messageId: string;
+  sessionId: string;
+  tokens: TokenUsage;
+  cost: number;
+  modelProvider: string | null;
+  modelId: string | null;
+}
+
+export interface StepStartRow {
+  /** The step-start part's ID, or the step-finish part's without a start. */
+  id: string;
+  sessionId: string;
+  messageId: string;
+  /** Position of the step within its message, from 0. */
+  stepIndex: number;
+  startedAt: Date | null;
+}
+
+export interface StepToolCall {
+  callId: string;
+  tool: string;
+}
+
+export interface StepFinishRow extends StepStartRow {
+  finishPartId: string;
+  finishedAt: Date;
+  durationMs: number | null;
+  reason: string | null;
+  tokens: TokenUsage;
+  cost: number;
+  toolCalls: StepToolCall[];
+}
+
+export interface PartRow extends RedactedRow, EncryptableRow {
+  id: string;
+  sessionId: string;
+  messageId: string;
+  type: string;
+  toolName: string | null;
+  text: string | null;
+  status: string | null;
+  content: unknown;
+}
+
+export interface CommandRow extends RedactedRow {
+  sessionId: string;
+  name: string;
+  args: string | null;
+}
+
+export interface GitSnapshotRow {
+  sessionId: string;
+  /** The user message that triggered the snapshot, if any. */
+  messageId: string | null;
+  eventType: string;
+  branch: string | null;
+  commitSha: string | null;
+  remoteUrl: string | null;
+  dirtyFiles: number;
+}
+
+export interface FileChangeRow extends FileChange, RedactedRow, EncryptableRow {
+  sessionId: string;
+  messageId: string | null;
+  /**
+   * The call that made the change. When its execution is recorded, the change
+   * is linked to that row rather than to `correlationId`.
+   */
+  callId?: string | null;
+  /** The tool_executions row of the call that made the change. */
+  correlationId: string | null;
+  toolName: string;
+}
+
+/**
+ * The call a tool execution answers, and the tool part and message that made
+ * it when they are known. Missing before this version, in replayed writes.
+ */
+export interface ToolCallLink {
+  callId?: string | null;
+  messageId?: string | null;
+  partId?: string | null;
+}
+
+export interface ToolStartRow extends ToolCallLink, RedactedRow, EncryptableRow {
+  correlationId: string;
+  sessionId: string;
+  toolName: string;
+  args: unknown;
+  startedAt: Date;
+}
+
+/**
+ * Completes the execution with the row's call ID, which a retried call shares
+ * with its first start. Rows without one are matched by correlation ID.
+ */
+export interface ToolEndRow extends ToolCallLink, RedactedRow, EncryptableRow {
+  correlationId: string;
+  result: unknown;
+  completedAt: Date;
+  durationMs: number;
+}
+
+export interface ToolExecutionRow extends ToolCallLink, RedactedRow, EncryptableRow {
+  correlationId: string;
+  sessionId: string;
+  toolName: string;
+  args: unknown;
+  result: unknown;
+  completedAt: Date;
+}
+
+export interface ToolFailureRow extends ToolCallLink, RedactedRow {
+  /** Used only when the call has no execution yet. */
+  correlationId: string;
+  sessionId: string;
+  callId: string;
+  toolName: string;
+  error: string;
+  completedAt: Date;
+}
+
+export interface PermissionRequestRow extends RedactedRow, EncryptableRow {
+  /** OpenCode's permission ID. */
+  id: string;
+  sessionId: string;
+  messageId: string | null;
+  callId: string | null;
+  /** The tool or action asked about, such as `bash` or `edit`. */
+  type: string;
+  patterns: string[] | null;
+  title: string | null;
+  requestedAt: Date;
+}
+
+export interface PermissionReplyRow {
+  id: string;
+  sessionId: string;
+  response: string;
+  respondedAt: Date;
+}
+
+export interface FailedWriteRow {
+  sessionId: string | null;
+  eventType: string | null;
+  operation: string;
+  payload: unknown[];
+  errorCode: string | null;
+  errorMessage: string;
+}
+
+export interface FailedWrite extends FailedWriteRow {
+  id: string;
+  attempts: number;
+}
+
+/** Ages in days after which data is purged; 0 keeps it forever. */
+export interface RetentionRules {
+  /** Sessions with no activity for this long are deleted. */
+  sessionDays: number;
+  /** Tool results older than this are removed; the executions are kept. */
+  toolResultDays: number;
+  /** Sessions deleted in OpenCode this long ago are removed for good. */
+  deletedSessionDays: number;
+}
+
+/** Rows touched by one purge. */
+export interface PurgeResult {
+  expiredSessions: number;
+  deletedSessions: number;
+  toolResults: number;
+}
+
+/**
+ * Everything the plugin persists goes through this interface. Each backend
+ * decides how to map the rows onto its own schema.
+ */
+export interface Storage {
+  readonly backend: "postgres" | "sqlite";
+
+  connect(): Promise<boolean>;
+  migrate(): Promise<MigrationResult>;
+  close(): Promise<void>;
+
+  upsertSession(session: SessionRow): Promise<void>;
+  updateSession(update: SessionUpdate): Promise<void>;
+  markSessionActive(sessionId: string): Promise<void>;
+  markSessionIdle(sessionId: string): Promise<void>;
+  markSessionDeleted(sessionId: string): Promise<void>;
+  /**
+   * Removes a session, its child sessions and everything recorded for them,
+   * leaving a tombstone with each session ID and the deletion time.
+   */
+  hardDeleteSession(sessionId: string): Promise<void>;
+  recordSessionError(error: SessionErrorRow): Promise<void>;
+  compactSession(sessionId: string): Promise<void>;
+  /**
+   * Stores a message's usage and moves the session's totals by the change
+   * from what the message reported before, so repeated reports count once.
+   */
+  recordMessageUsage(usage: MessageUsage): Promise<void>;
+  /**
+   * Prices every message with token counts from `model_prices` again and
+   * re-totals its session. Returns how many messages were priced.
+   */
+  recomputeCosts(): Promise<number>;
+
+  upsertMessage(message: MessageRow): Promise<void>;
+  removeMessage(messageId: string): Promise<void>;
+
+  upsertPart(part: PartRow): Promise<void>;
+  upsertStreamingParts(parts: PartRow[]): Promise<void>;
+  removePart(partId: string): Promise<void>;
+
+  recordStepStart(step: StepStartRow): Promise<void>;
+  /** Completes a step, creating it when its start wasn't recorded. */
+  recordStepFinish(step: StepFinishRow): Promise<void>;
+
+  recordCommand(command: CommandRow): Promise<void>;
+  recordPermissionRequest(request: PermissionRequestRow): Promise<void>;
+  /** Records the answer, creating the request when it wasn't recorded. */
+  recordPermissionReply(reply: PermissionReplyRow): Promise<void>;
+  recordGitSnapshot(snapshot: GitSnapshotRow): Promise<void>;
+
+  recordToolStart(start: ToolStartRow): Promise<void>;
+  recordToolEnd(end: ToolEndRow): Promise<void>;
+  /**
+   * Records a call whose start wasn't seen, completing the started row
+   * instead when one with the same call ID exists.
+   */
+  recordToolExecution(execution: ToolExecutionRow): Promise<void>;
+  /** Sets the part and message of a call's execution, if not set already. */
+  linkToolPart(callId: string, messageId: string, partId: string): Promise<void>;
+  /** Marks a call's execution failed, creating it when it wasn't recorded. */
+  recordToolFailure(failure: ToolFailureRow): Promise<void>;
+  attachToolOutput(partId: string, output: unknown): Promise<void>;
+  recordFileChanges(changes: FileChangeRow[]): Promise<void>;
+
+  recordFailedWrite(failure: FailedWriteRow): Promise<void>;
+  /** Unresolved failed writes, oldest first. */
+  listFailedWrites(limit: number): Promise<FailedWrite[]>;
+  resolveFailedWrite(id: string): Promise<void>;
+  recordFailedWriteAttempt(
+    id: string,
+    errorCode: string | null,
+    errorMessage: string
+  ): Promise<void>;
+
+  /**
+   * Applies the retention rules. Returns null without purging when another
+   * instance holds the purge lock.
+   */
+  purge(rules: RetentionRules): Promise<PurgeResult | null>;
+
+  /** Rows of `table` encrypted with a key other than `currentKeyId`. */
+  listStaleEncryptedRows(
+    table: EncryptedTable,
+    currentKeyId: string,
+    limit: number
+  ): Promise<StaleEncryptedRow[]>;
+  updateEncryptedRow(
+    table: EncryptedTable,
+    id: string,
+    keyId: string,
+    values: Record<string, unknown>
+  ): Promise<void>;
+}
+
+/**
+ * Storage members that don't record plugin data, so a dead-lettered write
+ * must never be replayed through them.
+ */
+export const NON_REPLAYABLE_MEMBERS = [
+  "backend",
+  "connect",
+  "migrate",
+  "close",
+  "recordFailedWrite",
+  "listFailedWrites",
+  "resolveFailedWrite",
+  "recordFailedWriteAttempt",
+  "purge",
+  "recomputeCosts",
+  "listStaleEncryptedRows",
+  "updateEncryptedRow",
+] as const satisfies ReadonlyArray<keyof Storage>;
+
+/** Storage methods that record plugin data and can be replayed. */
+export type WriteOperation = Exclude<
+  keyof Storage,
+  (typeof NON_REPLAYABLE_MEMBERS)[number]
+>;
@@ -0,0 +1,4 @@
+declare module "*.sql" {
+  const content: string;
+  export default content;
+}